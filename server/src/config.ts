@@ -0,0 +1,300 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { z } from 'zod';
+
+/** Default config file, relative to the repo root */
+export const CONFIG_FILENAME = 'mcp-app.config.json';
+
+const integer = () => z.coerce.number().int().nonnegative();
+const port = () => z.coerce.number().int().min(1).max(65535);
+const flag = () =>
+  z.union([
+    z.boolean(),
+    z.enum(['true', 'false']).transform((value) => value === 'true'),
+  ]);
+const list = () =>
+  z
+    .union([z.array(z.string()), z.string()])
+    .transform((value) =>
+      (Array.isArray(value) ? value : value.split(','))
+        .map((item) => item.trim())
+        .filter(Boolean)
+    );
+
+/**
+ * Server and widget build settings. Each key is read from the matching
+ * SCREAMING_SNAKE_CASE env var (e.g. `sessionMaxAge` from `SESSION_MAX_AGE`),
+ * falling back to the config file, then the default.
+ */
+const AppConfigObject = z.object({
+  port: port().default(8080),
+  nodeEnv: z.string().default('development'),
+  logLevel: z
+    .enum(['fatal', 'error', 'warn', 'info', 'debug', 'trace', 'silent'])
+    .default('info'),
+  /** Defaults to `sessionMaxAge`, so sessions only expire by age */
+  sessionIdleTimeout: integer().optional(),
+  sessionMaxAge: integer().default(3_600_000),
+  eventStore: z.enum(['memory', 'file']).default('memory'),
+  eventStorePath: z.string().default('data/event-store.jsonl'),
+  eventStoreMaxEvents: integer().default(1000),
+  eventStoreTtl: integer().default(3_600_000),
+  maxSessions: integer().default(1000),
+  maxSessionsPerClient: integer().default(20),
+  toolCallsPerMinute: integer().default(60),
+  maxConcurrentToolCalls: integer().default(50),
+  shutdownTimeout: integer().default(10_000),
+  statelessMode: flag().default(false),
+  authIssuer: z.url().optional(),
+  authAudience: z.string().optional(),
+  authJwksPath: z.string().optional(),
+  authResourceUrl: z.url().optional(),
+  authRequiredScopes: list().default([]),
+  corsOrigin: z.string().default('*'),
+  widgetPort: port().default(4444),
+  baseUrl: z.url().optional(),
+  widgetCacheMaxAge: integer().default(60_000),
+  widgetFetchTimeout: integer().min(1).default(5000),
+  inlineDevMode: flag().default(false),
+  inlineBuild: flag().default(false),
+  widgetHtml: z.enum(['hosted', 'inline']).default('hosted'),
+  inlineMaxAssetBytes: integer().default(2_000_000),
+  inlineMaxTotalBytes: integer().default(5_000_000),
+  tracingExporter: z.enum(['otlp', 'file']).optional(),
+  tracingFilePath: z.string().default('data/traces.jsonl'),
+});
+
+/** {@link AppConfigObject} with cross-key checks */
+export const AppConfigSchema = AppConfigObject.superRefine((config, ctx) => {
+  if (config.authIssuer) {
+    for (const key of ['authAudience', 'authJwksPath'] as const) {
+      if (!config[key]) {
+        ctx.addIssue({
+          code: 'custom',
+          path: [key],
+          message: 'Required when AUTH_ISSUER is set',
+        });
+      }
+    }
+  }
+});
+
+/**
+ * The keys the widget Vite build reads, so building widgets doesn't require
+ * server-only settings such as `AUTH_AUDIENCE`
+ */
+export const WidgetConfigSchema = AppConfigObject.pick({
+  widgetPort: true,
+  baseUrl: true,
+  inlineDevMode: true,
+  inlineBuild: true,
+  inlineMaxAssetBytes: true,
+  inlineMaxTotalBytes: true,
+});
+
+export type AppConfig = z.output<typeof AppConfigSchema> & {
+  /** Public URL of `/mcp`, defaults to localhost on `port` */
+  authResourceUrl: string;
+  sessionIdleTimeout: number;
+};
+
+export type WidgetConfig = z.output<typeof WidgetConfigSchema>;
+
+type ConfigKey = keyof z.input<typeof AppConfigSchema>;
+type ConfigSource = 'default' | 'file' | 'env';
+
+/** Keys whose values are never logged */
+const SECRET_KEYS = /secret|token|password|key$/i;
+
+/**
+ * Thrown by {@link loadConfig} with one line per invalid value
+ */
+export class ConfigError extends Error {
+  readonly issues: string[];
+
+  constructor(issues: string[]) {
+    super(
+      `Invalid configuration:\n${issues.map((i) => `  - ${i}`).join('\n')}`
+    );
+    this.name = 'ConfigError';
+    this.issues = issues;
+  }
+}
+
+/**
+ * `sessionMaxAge` -> `SESSION_MAX_AGE`
+ */
+export function envName(key: string): string {
+  return key.replace(/[A-Z]/g, (char) => `_${char}`).toUpperCase();
+}
+
+export interface LoadConfigOptions {
+  /** Repo root; the config file and relative paths resolve against it */
+  rootDir: string;
+  env?: Record<string, string | undefined>;
+}
+
+export interface LoadedConfig {
+  config: AppConfig;
+  /** Config file that was read, if any */
+  configFile?: string;
+  sources: Record<ConfigKey, ConfigSource>;
+}
+
+function readConfigFile(filePath: string): Record<string, unknown> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  } catch (err) {
+    throw new ConfigError([
+      `${filePath}: ${err instanceof Error ? err.message : String(err)}`,
+    ]);
+  }
+
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    throw new ConfigError([`${filePath}: expected a JSON object`]);
+  }
+  return parsed as Record<string, unknown>;
+}
+
+interface LayeredInput {
+  input: Record<string, unknown>;
+  sources: Record<string, ConfigSource>;
+  configFile: string;
+  fileValues?: Record<string, unknown>;
+}
+
+/**
+ * Pick each of `keys` from env vars, then the config file. The file may
+ * hold any config key, not only `keys`.
+ */
+function layerInput(
+  keys: string[],
+  { rootDir, env = process.env }: LoadConfigOptions
+): LayeredInput {
+  const configFile = path.resolve(rootDir, env.CONFIG_FILE || CONFIG_FILENAME);
+  let fileValues: Record<string, unknown> | undefined;
+
+  if (fs.existsSync(configFile)) {
+    fileValues = readConfigFile(configFile);
+  } else if (env.CONFIG_FILE) {
+    throw new ConfigError([`CONFIG_FILE: ${configFile} does not exist`]);
+  }
+
+  const unknownKeys = Object.keys(fileValues ?? {}).filter(
+    (key) => !(key in AppConfigObject.shape)
+  );
+  if (unknownKeys.length > 0) {
+    throw new ConfigError(
+      unknownKeys.map((key) => `${configFile}: unknown key "${key}"`)
+    );
+  }
+
+  const input: Record<string, unknown> = {};
+  const sources: Record<string, ConfigSource> = {};
+
+  for (const key of keys) {
+    const envValue = env[envName(key)];
+    if (envValue) {
+      input[key] = envValue;
+      sources[key] = 'env';
+    } else if (fileValues && key in fileValues) {
+      input[key] = fileValues[key];
+      sources[key] = 'file';
+    } else {
+      sources[key] = 'default';
+    }
+  }
+
+  return { input, sources, configFile, fileValues };
+}
+
+function parseLayered<T extends z.ZodType>(
+  schema: T,
+  { input, sources, configFile }: LayeredInput
+): z.output<T> {
+  const result = schema.safeParse(input);
+  if (!result.success) {
+    throw new ConfigError(
+      result.error.issues.map((issue) => {
+        const key = String(issue.path[0]);
+        const origin =
+          sources[key] === 'file' ? `${key} in ${configFile}` : envName(key);
+        return `${origin}: ${issue.message}`;
+      })
+    );
+  }
+  return result.data;
+}
+
+/**
+ * Load configuration from defaults, then the optional config file
+ * (`CONFIG_FILE`, default `mcp-app.config.json`), then env vars. Empty env
+ * vars count as unset. Throws a {@link ConfigError} listing every bad value.
+ */
+export function loadConfig(options: LoadConfigOptions): LoadedConfig {
+  const layered = layerInput(Object.keys(AppConfigObject.shape), options);
+  const config = parseLayered(AppConfigSchema, layered);
+  const resolvePath = (value: string) => path.resolve(options.rootDir, value);
+
+  return {
+    config: {
+      ...config,
+      sessionIdleTimeout: config.sessionIdleTimeout ?? config.sessionMaxAge,
+      eventStorePath: resolvePath(config.eventStorePath),
+      tracingFilePath: resolvePath(config.tracingFilePath),
+      authJwksPath: config.authJwksPath && resolvePath(config.authJwksPath),
+      authResourceUrl:
+        config.authResourceUrl ?? `http://localhost:${config.port}/mcp`,
+    },
+    configFile: layered.fileValues ? layered.configFile : undefined,
+    sources: layered.sources as Record<ConfigKey, ConfigSource>,
+  };
+}
+
+/**
+ * Load only the {@link WidgetConfigSchema} keys, layered the same way as
+ * {@link loadConfig}
+ */
+export function loadWidgetConfig(options: LoadConfigOptions): WidgetConfig {
+  return parseLayered(
+    WidgetConfigSchema,
+    layerInput(Object.keys(WidgetConfigSchema.shape), options)
+  );
+}
+
+/**
+ * Effective config for the startup log, with secrets and URL credentials
+ * redacted and each value's source
+ */
+export function configReport({
+  config,
+  configFile,
+  sources,
+}: LoadedConfig): Record<string, unknown> {
+  const values: Record<string, unknown> = {};
+
+  for (const [key, value] of Object.entries(config)) {
+    if (value !== undefined && SECRET_KEYS.test(key)) {
+      values[key] = '[redacted]';
+    } else if (typeof value === 'string' && /^\w+:\/\/[^/]*@/.test(value)) {
+      const url = new URL(value);
+      url.username = url.password = '';
+      values[key] = `${url.href} [credentials redacted]`;
+    } else {
+      values[key] = value;
+    }
+  }
+
+  const from = (source: ConfigSource) =>
+    Object.entries(sources)
+      .filter(([, value]) => value === source)
+      .map(([key]) => key);
+
+  return {
+    configFile,
+    values,
+    fromFile: from('file'),
+    fromEnv: from('env').map(envName),
+  };
+}
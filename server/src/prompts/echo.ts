@@ -0,0 +1,14 @@
+import { definePrompt } from '../utils/prompt-registry.js';
+import { EchoToolInputSchema } from '../types.js';
+
+/**
+ * Echo prompt - opens the Echo widget with a message in one command
+ */
+export default definePrompt({
+  name: 'echo',
+  title: 'Echo',
+  description: 'Show a message in the Echo widget',
+  argsSchema: EchoToolInputSchema.pick({ message: true }),
+  template: 'Echo this message back to me: "{{message}}"',
+  tool: 'echo',
+});
@@ -6,42 +6,109 @@ import express from 'express';
 import { config } from 'dotenv';
 import pino from 'pino';
 import pinoHttp from 'pino-http';
-import { v4 as uuidv4 } from 'uuid';
+import { trace } from '@opentelemetry/api';
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
-import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
-import { InMemoryEventStore } from '@modelcontextprotocol/sdk/examples/shared/inMemoryEventStore.js';
-import type { ClientCapabilities } from '@modelcontextprotocol/sdk/types.js';
-import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
 import {
-  getUiCapability,
   registerAppResource,
-  registerAppTool,
   RESOURCE_MIME_TYPE,
 } from '@modelcontextprotocol/ext-apps/server';
+import { ConfigError, configReport, loadConfig } from './config.js';
 import { SessionManager } from './utils/session.js';
+import { createAuth } from './utils/auth.js';
+import { Metrics, type WidgetSource } from './utils/metrics.js';
+import { ToolCallLimiter } from './utils/rate-limit.js';
+import { GracefulShutdown } from './utils/shutdown.js';
 import {
-  EchoToolInputSchema,
-  type EchoToolOutput,
-  type WidgetDescriptor,
-} from './types.js';
+  initTracing,
+  traceLogFields,
+  traceRequest,
+  withSpan,
+} from './utils/tracing.js';
+import { createEventStore } from './utils/event-store.js';
+import {
+  ECHO_HISTORY_SERVICE,
+  EchoHistoryStore,
+  registerEchoHistory,
+} from './utils/echo-history.js';
+import { inlineWidgetHtml, type InlineOptions } from './utils/inliner.js';
+import { findDisallowedOrigins, mergeCsp } from './utils/csp.js';
+import { widgetResourceMeta } from './utils/widget-meta.js';
+import {
+  canRenderUi,
+  createMcpHandler,
+  type McpClientCapabilities,
+} from './utils/mcp-handler.js';
+import {
+  loadPrompts,
+  registerPrompts,
+  type PromptDefinition,
+} from './utils/prompt-registry.js';
+import {
+  loadTools,
+  registerTools,
+  type ToolDefinition,
+} from './utils/tool-registry.js';
+import { WidgetHtmlLoader } from './utils/widget-html-loader.js';
+import { WidgetRegistry } from './utils/widget-registry.js';
+import type { WidgetDescriptor } from './types.js';
 
 config();
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 const ROOT_DIR = path.resolve(__dirname, '..', '..');
 const ASSETS_DIR = path.resolve(ROOT_DIR, 'assets');
-
-const PORT = Number(process.env.PORT || '8080');
-const NODE_ENV = process.env.NODE_ENV || 'development';
-const LOG_LEVEL = process.env.LOG_LEVEL || 'info';
-const SESSION_MAX_AGE = Number(process.env.SESSION_MAX_AGE || '3600000');
-const CORS_ORIGIN = process.env.CORS_ORIGIN || '*';
-const WIDGET_PORT = Number(process.env.WIDGET_PORT || '4444');
-const { BASE_URL = '' } = process.env;
-const INLINE_DEV_MODE = process.env.INLINE_DEV_MODE === 'true';
+const TOOLS_DIR = path.resolve(__dirname, 'tools');
+const PROMPTS_DIR = path.resolve(__dirname, 'prompts');
+
+const loadedConfig = (() => {
+  try {
+    return loadConfig({ rootDir: ROOT_DIR });
+  } catch (err) {
+    if (err instanceof ConfigError) {
+      console.error(err.message);
+      process.exit(1);
+    }
+    throw err;
+  }
+})();
+
+const {
+  port: PORT,
+  nodeEnv: NODE_ENV,
+  logLevel: LOG_LEVEL,
+  sessionIdleTimeout: SESSION_IDLE_TIMEOUT,
+  sessionMaxAge: SESSION_MAX_AGE,
+  eventStore: EVENT_STORE,
+  eventStorePath: EVENT_STORE_PATH,
+  eventStoreMaxEvents: EVENT_STORE_MAX_EVENTS,
+  eventStoreTtl: EVENT_STORE_TTL,
+  maxSessions: MAX_SESSIONS,
+  maxSessionsPerClient: MAX_SESSIONS_PER_CLIENT,
+  toolCallsPerMinute: TOOL_CALLS_PER_MINUTE,
+  maxConcurrentToolCalls: MAX_CONCURRENT_TOOL_CALLS,
+  shutdownTimeout: SHUTDOWN_TIMEOUT,
+  statelessMode: STATELESS_MODE,
+  authIssuer: AUTH_ISSUER,
+  authAudience: AUTH_AUDIENCE = '',
+  authJwksPath: AUTH_JWKS_PATH = '',
+  authResourceUrl: AUTH_RESOURCE_URL,
+  authRequiredScopes: AUTH_REQUIRED_SCOPES,
+  corsOrigin: CORS_ORIGIN,
+  widgetPort: WIDGET_PORT,
+  baseUrl: BASE_URL = '',
+  widgetCacheMaxAge: WIDGET_CACHE_MAX_AGE,
+  widgetFetchTimeout: WIDGET_FETCH_TIMEOUT,
+  inlineDevMode: INLINE_DEV_MODE,
+  widgetHtml: WIDGET_HTML,
+  inlineMaxAssetBytes: INLINE_MAX_ASSET_BYTES,
+  inlineMaxTotalBytes: INLINE_MAX_TOTAL_BYTES,
+  tracingExporter: TRACING_EXPORTER,
+  tracingFilePath: TRACING_FILE_PATH,
+} = loadedConfig.config;
 
 const logger = pino({
   level: LOG_LEVEL,
+  mixin: traceLogFields,
   transport:
     NODE_ENV === 'development'
       ? {
@@ -55,33 +122,107 @@ const logger = pino({
       : undefined,
 });
 
-const ECHO_WIDGET: WidgetDescriptor = {
-  id: 'echo',
-  title: 'Echo',
-  uri: 'ui://echo',
-};
+const metrics = new Metrics();
+const echoHistory = new EchoHistoryStore();
+
+/** Widget HTML comes from the Vite dev server rather than the build output */
+const USE_VITE_DEV_SERVER =
+  NODE_ENV === 'development' && !INLINE_DEV_MODE && WIDGET_HTML === 'hosted';
+
+const devWidgetOrigin = `http://localhost:${WIDGET_PORT}`;
+const devWidgetOriginAlt = `http://127.0.0.1:${WIDGET_PORT}`;
+
+/**
+ * CSP every widget gets for wherever its assets are served from. Widgets add
+ * their own in `<widget>.widget.json`.
+ */
+const DEFAULT_WIDGET_CSP = mergeCsp(
+  INLINE_DEV_MODE || WIDGET_HTML === 'inline'
+    ? undefined
+    : { resourceDomains: [new URL(BASE_URL || devWidgetOrigin).origin] },
+  USE_VITE_DEV_SERVER
+    ? {
+        resourceDomains: [devWidgetOrigin, devWidgetOriginAlt],
+        connectDomains: [
+          devWidgetOrigin,
+          devWidgetOriginAlt,
+          devWidgetOrigin.replace('http://', 'ws://'),
+          devWidgetOriginAlt.replace('http://', 'ws://'),
+        ],
+      }
+    : undefined
+);
+
+const widgetHtmlLoader = BASE_URL
+  ? new WidgetHtmlLoader(logger, {
+      baseUrl: BASE_URL,
+      maxAge: WIDGET_CACHE_MAX_AGE,
+      timeout: WIDGET_FETCH_TIMEOUT,
+      inline: WIDGET_HTML === 'inline',
+    })
+  : undefined;
 
 /** Pre-inlined widget HTML cache — populated at startup when INLINE_DEV_MODE is true */
 const inlinedHtmlCache = new Map<string, string>();
 
-function buildInlinedHtml(widgetId: string): string | null {
+const inlineOptions: InlineOptions = {
+  assetsDir: ASSETS_DIR,
+  // Built HTML points at the Vite dev origin, or BASE_URL when set
+  publicUrls: [
+    `http://localhost:${WIDGET_PORT}`,
+    `http://127.0.0.1:${WIDGET_PORT}`,
+    ...(BASE_URL ? [BASE_URL] : []),
+  ],
+  maxAssetBytes: INLINE_MAX_ASSET_BYTES,
+  maxTotalBytes: INLINE_MAX_TOTAL_BYTES,
+};
+
+/**
+ * Embed every script, chunk, stylesheet, font and image in the widget HTML
+ */
+async function inlineWidgetAssets(
+  widgetId: string,
+  html: string
+): Promise<string> {
+  const inlined = await inlineWidgetHtml(html, inlineOptions);
+  if (inlined.externalUrls.length > 0) {
+    logger.warn(
+      { widgetId, externalUrls: inlined.externalUrls },
+      'Inlined widget still references external URLs'
+    );
+  }
+  logger.info(
+    {
+      widgetId,
+      originalLength: html.length,
+      inlinedLength: inlined.html.length,
+      assets: inlined.assets.length,
+    },
+    'Inlined widget HTML'
+  );
+  return inlined.html;
+}
+
+async function buildInlinedHtml(widgetId: string): Promise<string | null> {
   const htmlPath = path.join(ASSETS_DIR, `${widgetId}.html`);
   if (!fs.existsSync(htmlPath)) {
     logger.warn({ htmlPath }, 'Cannot pre-inline: HTML file not found');
     return null;
   }
-  const html = fs.readFileSync(htmlPath, 'utf-8');
-  const inlined = inlineWidgetAssets(html);
-  logger.info(
-    { widgetId, originalLength: html.length, inlinedLength: inlined.length },
-    'Pre-inlined widget HTML'
-  );
-  return inlined;
+  try {
+    return await inlineWidgetAssets(
+      widgetId,
+      fs.readFileSync(htmlPath, 'utf-8')
+    );
+  } catch (err) {
+    logger.error({ err, widgetId }, 'Cannot pre-inline widget');
+    return null;
+  }
 }
 
-function preInlineWidgets(widgetIds: string[]) {
+async function preInlineWidgets(widgetIds: string[]) {
   for (const id of widgetIds) {
-    const html = buildInlinedHtml(id);
+    const html = await buildInlinedHtml(id);
     if (html) {
       inlinedHtmlCache.set(id, html);
     }
@@ -89,10 +230,13 @@ function preInlineWidgets(widgetIds: string[]) {
 }
 
 /**
- * Read widget HTML - from Vite dev server in development, from assets in production
+ * Read widget HTML - from Vite dev server in development, from assets in production.
+ * With WIDGET_HTML=inline the prebuilt `<widget>.inline.html` is read instead.
  */
-async function readWidgetHtml(widgetId: string): Promise<string> {
-  if (NODE_ENV === 'development' && !INLINE_DEV_MODE) {
+async function readWidgetHtml(
+  widgetId: string
+): Promise<{ html: string; source: WidgetSource }> {
+  if (USE_VITE_DEV_SERVER) {
     try {
       const url = `http://localhost:${WIDGET_PORT}/${widgetId}.html`;
       logger.debug({ url }, 'Fetching widget HTML from Vite dev server');
@@ -115,7 +259,7 @@ async function readWidgetHtml(widgetId: string): Promise<string> {
         { url, htmlLength: html.length },
         'Successfully fetched widget HTML'
       );
-      return html;
+      return { html, source: 'vite' };
     } catch (err) {
       logger.warn(
         { err, widgetId, widgetPort: WIDGET_PORT },
@@ -124,16 +268,11 @@ async function readWidgetHtml(widgetId: string): Promise<string> {
     }
   }
 
-  if (BASE_URL) {
-    const url = new URL(`${widgetId}.html`, BASE_URL).href;
-    logger.debug({ url }, 'Fetching widget HTML from BASE_URL');
-    const response = await fetch(url);
-    if (!response.ok) {
-      throw new Error(
-        `Failed to fetch widget HTML from ${url}: ${response.statusText}`
-      );
-    }
-    return response.text();
+  if (widgetHtmlLoader) {
+    const { html, cache } = await widgetHtmlLoader.load(widgetId);
+    logger.debug({ widgetId, cache }, 'Loaded widget HTML from BASE_URL');
+    trace.getActiveSpan()?.setAttribute('mcp.widget.cache', cache);
+    return { html, source: 'base_url' };
   }
 
   if (!fs.existsSync(ASSETS_DIR)) {
@@ -142,102 +281,67 @@ async function readWidgetHtml(widgetId: string): Promise<string> {
     );
   }
 
+  if (WIDGET_HTML === 'inline') {
+    const inlinePath = path.join(ASSETS_DIR, `${widgetId}.inline.html`);
+    if (!fs.existsSync(inlinePath)) {
+      throw new Error(
+        `Inline widget HTML not found: ${inlinePath}. Build widgets with INLINE_BUILD=true.`
+      );
+    }
+    return { html: fs.readFileSync(inlinePath, 'utf-8'), source: 'assets' };
+  }
+
   const htmlPath = path.join(ASSETS_DIR, `${widgetId}.html`);
 
   if (!fs.existsSync(htmlPath)) {
     throw new Error(`Widget HTML not found: ${htmlPath}`);
   }
 
-  return fs.readFileSync(htmlPath, 'utf-8');
+  return { html: fs.readFileSync(htmlPath, 'utf-8'), source: 'assets' };
 }
 
-function inlineWidgetAssets(html: string): string {
-  logger.debug({ htmlLength: html.length }, 'Inlining widget assets');
-  let nextHtml = html;
-  const scripts = Array.from(
-    html.matchAll(
-      /<script[^>]*type="module"[^>]*src="([^"]+)"[^>]*><\/script>/g
-    )
-  );
-  logger.debug(
-    { scriptMatches: scripts.length },
-    'Found script tags to inline'
-  );
-  for (const match of scripts) {
-    const src = match[1];
-    const filename = path.basename(src.split('?')[0]);
-    const assetPath = path.join(ASSETS_DIR, filename);
-    logger.debug(
-      { src, filename, assetPath, exists: fs.existsSync(assetPath) },
-      'Processing script'
+/**
+ * Warn about widgets whose served HTML loads from origins their CSP blocks
+ */
+function checkWidgetCsp(widgets: WidgetDescriptor[]) {
+  if (USE_VITE_DEV_SERVER) {
+    return;
+  }
+
+  for (const widget of widgets) {
+    const htmlPath = path.join(
+      ASSETS_DIR,
+      WIDGET_HTML === 'inline' ? `${widget.id}.inline.html` : widget.html
     );
-    if (!fs.existsSync(assetPath)) {
-      logger.warn(
-        { assetPath },
-        'Inline asset missing, leaving script tag as-is'
-      );
+    const html = INLINE_DEV_MODE
+      ? inlinedHtmlCache.get(widget.id)
+      : fs.existsSync(htmlPath) && fs.readFileSync(htmlPath, 'utf-8');
+    if (!html) {
       continue;
     }
-    const js = fs.readFileSync(assetPath);
-    const b64 = js.toString('base64');
-    const inlineTag = `<script type="module" src="data:text/javascript;base64,${b64}"></script>`;
-    nextHtml = nextHtml.replace(match[0], () => inlineTag);
-    logger.debug({ newLength: nextHtml.length }, 'JS inlined');
-  }
 
-  const styles = Array.from(
-    html.matchAll(/<link[^>]*rel="stylesheet"[^>]*href="([^"]+)"[^>]*>/g)
-  );
-  for (const match of styles) {
-    const href = match[1];
-    const filename = path.basename(href.split('?')[0]);
-    const assetPath = path.join(ASSETS_DIR, filename);
-    if (!fs.existsSync(assetPath)) {
+    const csp = mergeCsp(DEFAULT_WIDGET_CSP, widget.csp);
+    const origins = findDisallowedOrigins(html, csp);
+    if (origins.length > 0) {
       logger.warn(
-        { assetPath },
-        'Inline asset missing, leaving style tag as-is'
+        { widgetId: widget.id, origins, csp },
+        'Widget HTML references origins its CSP does not allow'
       );
-      continue;
     }
-
-    const css = fs.readFileSync(assetPath, 'utf-8');
-    const inlineTag = `<style>${css}</style>`;
-    nextHtml = nextHtml.replace(match[0], () => inlineTag);
-    logger.debug({ newLength: nextHtml.length }, 'CSS inlined');
   }
-
-  nextHtml = nextHtml
-    .replace(/<link[^>]*rel="modulepreload"[^>]*>/g, '')
-    .replace(/<link[^>]*rel="preload"[^>]*as="style"[^>]*>/g, '');
-
-  if (INLINE_DEV_MODE) {
-    // Inject Google Fonts to replace the @fontsource @font-face rules stripped above.
-    // The host proxies these through its asset proxy so they load in the sandboxed iframe.
-    const googleFontsLink =
-      '<link rel="stylesheet" href="https://fonts.googleapis.com/css2?family=Geist:wght@100..900&family=Geist+Mono:wght@100..900&display=swap">';
-    nextHtml = nextHtml.replace('</head>', `${googleFontsLink}\n</head>`);
-    logger.debug('Injected Google Fonts link for inline mode');
-  }
-
-  logger.debug(
-    {
-      finalLength: nextHtml.length,
-      hasLocalhost: nextHtml.includes('localhost'),
-    },
-    'Inlining complete'
-  );
-
-  return nextHtml;
 }
 
 /**
- * Create an MCP server instance with echo tool
+ * Create an MCP server instance with all discovered tools and prompts
  */
 function createMcpServer(
-  sessionId: string,
-  clientCapabilities?: ClientCapabilities & {
-    extensions?: Record<string, unknown>;
-  }
+  sessionId: string | undefined,
+  tools: ToolDefinition[],
+  prompts: PromptDefinition[],
+  widgets: WidgetDescriptor[],
+  limiter: ToolCallLimiter,
+  clientCapabilities?: McpClientCapabilities,
+  clientIdentity?: string
 ): McpServer {
   const server = new McpServer({
     name: 'mcp-app-template',
@@ -246,70 +350,87 @@ function createMcpServer(
 
   const sessionLogger = logger.child({ sessionId });
 
-  const resourceUri = ECHO_WIDGET.uri;
-  const canRenderUiByCapability = Boolean(
-    getUiCapability(clientCapabilities)?.mimeTypes?.includes(RESOURCE_MIME_TYPE)
-  );
+  const canRenderUiByCapability = canRenderUi(clientCapabilities);
+
+  for (const widget of widgets) {
+    registerWidgetResource(server, widget, sessionLogger);
+  }
+
+  registerTools(server, tools, {
+    sessionId,
+    logger: sessionLogger,
+    canRenderUi: canRenderUiByCapability,
+    widgets,
+    limiter,
+    clientIdentity,
+    metrics,
+    services: { [ECHO_HISTORY_SERVICE]: echoHistory },
+  });
+
+  registerEchoHistory(server, echoHistory, {
+    sessionId,
+    logger: sessionLogger,
+  });
+
+  registerPrompts(server, prompts, {
+    sessionId,
+    logger: sessionLogger,
+    tools,
+  });
+
+  return server;
+}
+
+/**
+ * Register the `ui://<id>` app resource for a widget
+ */
+function registerWidgetResource(
+  server: McpServer,
+  widget: WidgetDescriptor,
+  sessionLogger: pino.Logger
+) {
+  const { id: widgetId, uri: resourceUri } = widget;
 
   registerAppResource(
     server,
     resourceUri,
     resourceUri,
-    { mimeType: RESOURCE_MIME_TYPE },
+    { mimeType: RESOURCE_MIME_TYPE, title: widget.title },
     async () => {
       sessionLogger.debug({ resourceUri }, 'Resource callback called');
-      const widgetId = resourceUri.replace('ui://', '');
       try {
-        const html = await readWidgetHtml(widgetId);
-        const devWidgetOrigin = `http://localhost:${WIDGET_PORT}`;
-        const devWidgetOriginAlt = `http://127.0.0.1:${WIDGET_PORT}`;
-        const baseUrlOrigin = new URL(BASE_URL || devWidgetOrigin).origin;
-
-        const resourceDomains: string[] = INLINE_DEV_MODE
-          ? []
-          : [baseUrlOrigin];
-        const connectDomains: string[] = [];
-
-        if (NODE_ENV === 'development' && !INLINE_DEV_MODE) {
-          resourceDomains.push(devWidgetOrigin, devWidgetOriginAlt);
-          connectDomains.push(
-            devWidgetOrigin,
-            devWidgetOriginAlt,
-            devWidgetOrigin.replace('http://', 'ws://'),
-            devWidgetOriginAlt.replace('http://', 'ws://')
-          );
-        }
-
-        if (INLINE_DEV_MODE) {
-          // Google Fonts — needed in inline dev mode where @fontsource local fonts
-          // can't load in sandboxed iframes. Remove if you self-host fonts.
-          resourceDomains.push(
-            'https://fonts.googleapis.com',
-            'https://fonts.gstatic.com'
-          );
-        }
-
-        const cspMeta =
-          resourceDomains.length > 0 || connectDomains.length > 0
-            ? {
-                ui: {
-                  csp: {
-                    resourceDomains: [...new Set(resourceDomains)],
-                    connectDomains: [...new Set(connectDomains)],
-                  },
-                },
+        const { html, source } = await withSpan(
+          'widget read',
+          { 'mcp.widget.id': widgetId },
+          async (span) => {
+            const result = await metrics.observeWidgetRead(
+              widgetId,
+              async () => {
+                const cached = INLINE_DEV_MODE
+                  ? inlinedHtmlCache.get(widgetId)
+                  : undefined;
+                if (cached) {
+                  return { html: cached, source: 'inline_cache' as const };
+                }
+                return readWidgetHtml(widgetId);
               }
-            : undefined;
+            );
+            span.setAttribute('mcp.widget.source', result.source);
+            return result;
+          }
+        );
+        const resourceMeta = widgetResourceMeta(widget, DEFAULT_WIDGET_CSP);
 
         sessionLogger.info(
-          { cspMeta },
-          'Constructed CSP meta for widget resource'
+          { resourceMeta },
+          'Constructed UI meta for widget resource'
         );
         sessionLogger.info({ resourceUri, widgetId }, 'Widget resource loaded');
 
-        const finalHtml = INLINE_DEV_MODE
-          ? (inlinedHtmlCache.get(widgetId) ?? inlineWidgetAssets(html))
-          : html;
+        const finalHtml =
+          INLINE_DEV_MODE && source !== 'inline_cache'
+            ? await inlineWidgetAssets(widgetId, html)
+            : html;
 
         return {
           contents: [
@@ -317,7 +438,7 @@ function createMcpServer(
               uri: resourceUri,
               mimeType: RESOURCE_MIME_TYPE,
               text: finalHtml,
-              _meta: cspMeta,
+              _meta: resourceMeta,
             },
           ],
         };
@@ -330,123 +451,76 @@ function createMcpServer(
       }
     }
   );
-
-  registerAppTool(
-    server,
-    'echo',
-    {
-      title: 'Echo',
-      description: "Echoes back the user's message in an interactive view",
-      inputSchema: EchoToolInputSchema.shape,
-      _meta: canRenderUiByCapability
-        ? {
-            ui: {
-              resourceUri,
-            },
-          }
-        : {},
-    },
-    async (args) => {
-      sessionLogger.info(
-        { toolName: 'echo', args, canRenderUiByCapability },
-        'Tool invoked'
-      );
-
-      try {
-        const result = EchoToolInputSchema.safeParse(args);
-
-        if (!result.success) {
-          sessionLogger.error(
-            { err: result.error, toolName: 'echo' },
-            'Validation failed'
-          );
-          return {
-            content: [
-              {
-                type: 'text',
-                text: `Error: ${result.error.issues.map((e) => e.message).join(', ')}`,
-              },
-            ],
-            isError: true,
-          };
-        }
-
-        const { message } = result.data;
-
-        const output = {
-          echoedMessage: message,
-          timestamp: new Date().toISOString(),
-        } satisfies EchoToolOutput;
-
-        sessionLogger.info({ output }, 'Tool execution successful');
-
-        if (!canRenderUiByCapability) {
-          return {
-            content: [
-              {
-                type: 'text',
-                text: `Echoing: "${message}"`,
-              },
-            ],
-          };
-        }
-
-        return {
-          content: [
-            {
-              type: 'text',
-              text: `Echoing: "${message}"`,
-            },
-          ],
-          structuredContent: output,
-        };
-      } catch (err) {
-        sessionLogger.error({ err, toolName: 'echo' }, 'Tool execution failed');
-        throw err;
-      }
-    }
-  );
-
-  return server;
 }
 
 /**
  * Main server setup
  */
 async function main() {
-  if (NODE_ENV === 'production' && !BASE_URL) {
-    logger.fatal('BASE_URL must be set in production');
+  if (NODE_ENV === 'production' && !BASE_URL && WIDGET_HTML === 'hosted') {
+    logger.fatal(
+      'BASE_URL must be set in production unless WIDGET_HTML=inline'
+    );
     process.exit(1);
   }
 
+  const tracerProvider = TRACING_EXPORTER
+    ? initTracing(logger, {
+        serviceName: 'mcp-app-template',
+        exporter: TRACING_EXPORTER,
+        filePath: TRACING_FILE_PATH,
+      })
+    : undefined;
+
   logger.info(
-    {
-      port: PORT,
-      nodeEnv: NODE_ENV,
-      logLevel: LOG_LEVEL,
-      assetsDir: ASSETS_DIR,
-      baseUrl: BASE_URL,
-      inlineDevMode: INLINE_DEV_MODE,
-    },
+    { assetsDir: ASSETS_DIR, config: configReport(loadedConfig) },
     'Starting MCP App Template server'
   );
 
-  const widgetIds = [ECHO_WIDGET.id];
+  const tools = await loadTools(TOOLS_DIR, logger);
+  const prompts = await loadPrompts(PROMPTS_DIR, logger);
+
+  // In development the Vite dev server serves the manifest; reload it for
+  // each new session since it may start after this server. Deployments
+  // without a local assets dir load it from BASE_URL
+  const widgetRegistry = new WidgetRegistry(logger, {
+    assetsDir: ASSETS_DIR,
+    devServerUrl: USE_VITE_DEV_SERVER
+      ? `http://localhost:${WIDGET_PORT}`
+      : undefined,
+    baseUrl: BASE_URL || undefined,
+    fetchTimeout: WIDGET_FETCH_TIMEOUT,
+  });
+  await widgetRegistry.load();
+  if (NODE_ENV === 'production' && widgetRegistry.list().length === 0) {
+    logger.fatal(
+      { assetsDir: ASSETS_DIR, baseUrl: BASE_URL || undefined },
+      'No widget manifest found in the assets dir or at BASE_URL'
+    );
+    process.exit(1);
+  }
+  widgetRegistry.watch(async (widgets) => {
+    if (INLINE_DEV_MODE) {
+      await preInlineWidgets(widgets.map((widget) => widget.id));
+    }
+    checkWidgetCsp(widgets);
+  });
 
   if (INLINE_DEV_MODE) {
-    preInlineWidgets(widgetIds);
+    await preInlineWidgets(widgetRegistry.list().map((widget) => widget.id));
 
     // Watch for rebuilds from widget watch mode
     if (fs.existsSync(ASSETS_DIR)) {
       fs.watch(ASSETS_DIR, (eventType, filename) => {
         if (filename?.endsWith('.html')) {
           const widgetId = filename.replace('.html', '');
-          if (widgetIds.includes(widgetId)) {
+          if (widgetRegistry.get(widgetId)) {
             logger.info({ widgetId, eventType }, 'Asset changed, re-inlining');
-            const html = buildInlinedHtml(widgetId);
-            if (html) {
-              inlinedHtmlCache.set(widgetId, html);
-            }
+            void buildInlinedHtml(widgetId).then((html) => {
+              if (html) {
+                inlinedHtmlCache.set(widgetId, html);
+              }
+            });
           }
         }
       });
@@ -454,6 +528,8 @@ async function main() {
     }
   }
 
+  checkWidgetCsp(widgetRegistry.list());
+
   const app = express();
 
   app.use(pinoHttp({ logger }));
@@ -462,6 +538,7 @@ async function main() {
     res.header('Access-Control-Allow-Origin', CORS_ORIGIN);
     res.header('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
     res.header('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+    res.header('Access-Control-Expose-Headers', 'WWW-Authenticate');
 
     if (req.method === 'OPTIONS') {
       res.sendStatus(200);
@@ -476,115 +553,132 @@ async function main() {
   app.use('/assets', express.static(ASSETS_DIR));
 
   const sessionManager = new SessionManager(logger);
+  const gracefulShutdown = new GracefulShutdown(logger);
+
+  metrics.trackSessions(sessionManager);
+  echoHistory.trackSessions(sessionManager);
+
+  app.get('/metrics', async (_req, res) => {
+    res.set('Content-Type', metrics.registry.contentType);
+    res.send(await metrics.registry.metrics());
+  });
 
   app.get('/health', (_req, res) => {
-    res.json({
-      status: 'ok',
+    const shutdownStatus = gracefulShutdown.status();
+    const shuttingDown = shutdownStatus.phase !== 'running';
+
+    // 503 while shutting down takes the instance out of load balancer rotation
+    res.status(shuttingDown ? 503 : 200).json({
+      status: shuttingDown ? shutdownStatus.phase : 'ok',
       version: '1.0.0',
+      mode: STATELESS_MODE ? 'stateless' : 'stateful',
       sessions: sessionManager.count(),
+      ...(shuttingDown && { shutdown: shutdownStatus }),
       timestamp: new Date().toISOString(),
     });
   });
 
-  app.all('/mcp', async (req, res) => {
-    const sessionId = req.headers['mcp-session-id'] as string | undefined;
-
-    logger.info({ method: req.method, sessionId, ip: req.ip }, 'MCP request');
-
-    try {
-      const session = sessionId ? sessionManager.get(sessionId) : undefined;
-
-      if (
-        !sessionId &&
-        req.method === 'POST' &&
-        isInitializeRequest(req.body)
-      ) {
-        logger.info('Initializing new session');
-
-        const eventStore = new InMemoryEventStore();
-
-        const transport = new StreamableHTTPServerTransport({
-          sessionIdGenerator: () => uuidv4(),
-          eventStore,
-          onsessioninitialized: (newSessionId) => {
-            logger.info({ sessionId: newSessionId }, 'Session initialized');
-          },
-        });
-
-        transport.onclose = () => {
-          const sid = transport.sessionId;
-          if (sid) {
-            logger.info({ sessionId: sid }, 'Transport closed');
-            sessionManager.delete(sid);
-          }
-        };
+  const eventStore = createEventStore(logger, EVENT_STORE, {
+    filePath: EVENT_STORE_PATH,
+    maxEventsPerSession: EVENT_STORE_MAX_EVENTS,
+    ttl: EVENT_STORE_TTL,
+  });
 
-        const tempSessionId = 'initializing';
-        const clientCapabilities = req.body.params.capabilities as
-          | (ClientCapabilities & { extensions?: Record<string, unknown> })
-          | undefined;
-        const server = createMcpServer(tempSessionId, clientCapabilities);
-        await server.connect(transport);
+  const auth = AUTH_ISSUER
+    ? createAuth(logger, {
+        issuer: AUTH_ISSUER,
+        audience: AUTH_AUDIENCE,
+        jwksPath: AUTH_JWKS_PATH,
+        resourceUrl: AUTH_RESOURCE_URL,
+        requiredScopes: AUTH_REQUIRED_SCOPES,
+      })
+    : undefined;
+
+  if (auth) {
+    app.use(auth.metadataRouter);
+  }
 
-        await transport.handleRequest(req, res, req.body);
+  const mcpMiddleware = auth ? [auth.requireAuth] : [];
+  const toolCallLimiter = new ToolCallLimiter(logger, {
+    toolCallsPerMinute: TOOL_CALLS_PER_MINUTE,
+    maxConcurrentToolCalls: MAX_CONCURRENT_TOOL_CALLS,
+  });
 
-        const actualSessionId = transport.sessionId;
-        if (actualSessionId) {
-          sessionManager.create(actualSessionId, server, transport);
+  app.all(
+    '/mcp',
+    gracefulShutdown.middleware(),
+    traceRequest,
+    ...mcpMiddleware,
+    createMcpHandler({
+      logger,
+      sessionManager,
+      eventStore,
+      sessionMaxAge: SESSION_MAX_AGE,
+      stateless: STATELESS_MODE,
+      sessionLimits: {
+        maxSessions: MAX_SESSIONS,
+        maxSessionsPerClient: MAX_SESSIONS_PER_CLIENT,
+      },
+      async createServer(sessionId, clientCapabilities, clientIdentity) {
+        if (USE_VITE_DEV_SERVER) {
+          await widgetRegistry.load();
         }
 
-        return;
-      }
-
-      if (session) {
-        await session.transport.handleRequest(req, res, req.body);
-        return;
-      }
-
-      logger.warn({ sessionId, method: req.method }, 'Invalid MCP request');
-      res.status(400).json({
-        jsonrpc: '2.0',
-        error: {
-          code: -32000,
-          message: 'Bad Request: No valid session ID provided',
-        },
-        id: null,
-      });
-    } catch (err) {
-      logger.error({ err, sessionId }, 'Error handling MCP request');
-      if (!res.headersSent) {
-        res.status(500).json({
-          jsonrpc: '2.0',
-          error: {
-            code: -32603,
-            message: 'Internal server error',
-          },
-          id: null,
-        });
-      }
-    }
-  });
+        return createMcpServer(
+          sessionId,
+          tools,
+          prompts,
+          widgetRegistry.list(),
+          toolCallLimiter,
+          clientCapabilities,
+          clientIdentity
+        );
+      },
+    })
+  );
 
   const cleanupInterval = setInterval(() => {
-    sessionManager.cleanup(SESSION_MAX_AGE);
+    sessionManager
+      .cleanup({ idleTimeout: SESSION_IDLE_TIMEOUT, maxAge: SESSION_MAX_AGE })
+      .catch((err) => {
+        logger.error({ err }, 'Session cleanup failed');
+      });
   }, 60000);
 
   const httpServer = createServer(app);
 
-  const shutdown = async () => {
-    logger.info('Shutting down server...');
+  const shutdown = async (signal: string) => {
+    if (gracefulShutdown.isShuttingDown()) {
+      logger.warn({ signal }, 'Forcing exit during shutdown');
+      process.exit(1);
+    }
 
-    clearInterval(cleanupInterval);
+    logger.info({ signal }, 'Shutting down server...');
 
-    httpServer.close(() => {
-      logger.info('HTTP server closed');
-    });
+    clearInterval(cleanupInterval);
+    widgetRegistry.close();
 
-    await sessionManager.closeAll();
+    try {
+      await gracefulShutdown.shutdown({
+        timeout: SHUTDOWN_TIMEOUT,
+        httpServer,
+        sessionManager,
+        async cleanup() {
+          await eventStore.close();
+          await tracerProvider?.shutdown();
+        },
+      });
+    } catch (err) {
+      logger.error({ err }, 'Shutdown failed');
+      process.exit(1);
+    }
 
     process.exit(0);
   };
 
+  process.on('SIGHUP', () => {
+    widgetHtmlLoader?.purge();
+  });
   process.on('SIGINT', shutdown);
   process.on('SIGTERM', shutdown);
 
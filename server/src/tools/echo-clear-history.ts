@@ -0,0 +1,43 @@
+import { echoHistoryService } from '../utils/echo-history.js';
+import { defineTool } from '../utils/tool-registry.js';
+import {
+  EchoClearHistoryToolInputSchema,
+  EchoClearHistoryToolOutputSchema,
+  type EchoClearHistoryToolOutput,
+} from '../types.js';
+
+/**
+ * Echo clear history tool - deletes one echoed message, or all of them.
+ * App-only, like echo_history.
+ */
+export default defineTool({
+  name: 'echo_clear_history',
+  title: 'Clear Echo History',
+  description:
+    'Deletes the history entry with the given ID from this session, or every echo when no ID is given',
+  inputSchema: EchoClearHistoryToolInputSchema,
+  outputSchema: EchoClearHistoryToolOutputSchema,
+  visibility: ['app'],
+  async handler({ id }, { sessionId, services }) {
+    const history = echoHistoryService(services);
+    if (!sessionId || !history) {
+      throw new Error('Echo history is only kept for stateful sessions');
+    }
+
+    const removed = history.clear(sessionId, id);
+    const output = {
+      removed,
+      remaining: history.get(sessionId).entries.length,
+    } satisfies EchoClearHistoryToolOutput;
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Deleted ${removed} echoed message${removed === 1 ? '' : 's'}`,
+        },
+      ],
+      structuredContent: output,
+    };
+  },
+});
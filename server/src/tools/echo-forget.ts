@@ -0,0 +1,70 @@
+import { echoHistoryService } from '../utils/echo-history.js';
+import { ElicitationUnsupportedError } from '../utils/elicitation.js';
+import { defineTool } from '../utils/tool-registry.js';
+import {
+  EchoForgetConfirmationSchema,
+  EchoForgetToolInputSchema,
+  EchoForgetToolOutputSchema,
+  type EchoForgetToolOutput,
+  type EchoToolOutput,
+} from '../types.js';
+
+function plural(count: number): string {
+  return `${count} echoed message${count === 1 ? '' : 's'}`;
+}
+
+/**
+ * Echo forget tool - deletes every echo matching a query once the user
+ * confirms through elicitation. `confirm` only counts on clients without
+ * form elicitation, so the model can't skip the form.
+ */
+export default defineTool({
+  name: 'echo_forget',
+  title: 'Forget Echoes',
+  description:
+    'Deletes every echo in this session containing the given text, after asking the user to confirm',
+  inputSchema: EchoForgetToolInputSchema,
+  outputSchema: EchoForgetToolOutputSchema,
+  async handler({ query, confirm }, { sessionId, services, elicit }) {
+    const history = echoHistoryService(services);
+    if (!sessionId || !history) {
+      throw new Error('Echo history is only kept for stateful sessions');
+    }
+
+    const needle = query.toLowerCase();
+    const matches = ({ echoedMessage }: EchoToolOutput) =>
+      echoedMessage.toLowerCase().includes(needle);
+    const { entries } = history.get(sessionId);
+    const count = entries.filter(matches).length;
+
+    const result = (removed: number, text: string) => ({
+      content: [{ type: 'text' as const, text }],
+      structuredContent: {
+        removed,
+        remaining: history.get(sessionId).entries.length,
+      } satisfies EchoForgetToolOutput,
+    });
+
+    if (count === 0) {
+      return result(0, `No echoed messages contain "${query}"`);
+    }
+
+    try {
+      const answer = await elicit(
+        `Forget ${plural(count)} containing "${query}"?`,
+        EchoForgetConfirmationSchema
+      );
+      if (answer.action !== 'accept' || !answer.content.confirm) {
+        return result(0, `Kept ${plural(count)}, the user did not confirm`);
+      }
+    } catch (err) {
+      // Without forms the model asks the user and calls again with `confirm`
+      if (!(err instanceof ElicitationUnsupportedError) || !confirm) {
+        throw err;
+      }
+    }
+
+    const removed = history.remove(sessionId, matches);
+    return result(removed, `Forgot ${plural(removed)}`);
+  },
+});
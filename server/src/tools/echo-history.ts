@@ -0,0 +1,56 @@
+import { echoHistoryService } from '../utils/echo-history.js';
+import { defineTool } from '../utils/tool-registry.js';
+import {
+  EchoHistoryToolInputSchema,
+  EchoHistoryToolOutputSchema,
+  type EchoHistoryToolOutput,
+} from '../types.js';
+
+/**
+ * Echo history tool - lists the messages echoed in this session. App-only:
+ * the Echo widget's History panel calls it, the model never sees it.
+ */
+export default defineTool({
+  name: 'echo_history',
+  title: 'Echo History',
+  description:
+    'Lists the messages echoed in this session, optionally filtered by text',
+  inputSchema: EchoHistoryToolInputSchema,
+  outputSchema: EchoHistoryToolOutputSchema,
+  visibility: ['app'],
+  async handler({ query }, { sessionId, services }) {
+    const history = echoHistoryService(services);
+    if (!sessionId || !history) {
+      throw new Error('Echo history is only kept for stateful sessions');
+    }
+
+    const { entries } = history.get(sessionId);
+    const needle = query?.trim().toLowerCase();
+    const output = {
+      entries: needle
+        ? entries.filter(({ echoedMessage }) =>
+            echoedMessage.toLowerCase().includes(needle)
+          )
+        : entries,
+      total: entries.length,
+    } satisfies EchoHistoryToolOutput;
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text:
+            output.entries.length > 0
+              ? output.entries
+                  .map(
+                    ({ echoedMessage, timestamp }) =>
+                      `${timestamp}: "${echoedMessage}"`
+                  )
+                  .join('\n')
+              : 'No echoed messages found',
+        },
+      ],
+      structuredContent: output,
+    };
+  },
+});
@@ -0,0 +1,60 @@
+import { setTimeout as sleep } from 'node:timers/promises';
+import { echoHistoryService } from '../utils/echo-history.js';
+import { defineTool } from '../utils/tool-registry.js';
+import {
+  EchoToolInputSchema,
+  EchoToolOutputSchema,
+  type EchoToolOutput,
+} from '../types.js';
+
+/**
+ * Echo tool - echoes the user's message back in the Echo widget. With
+ * `delaySeconds` it reports progress every second and stops when cancelled.
+ */
+export default defineTool({
+  name: 'echo',
+  title: 'Echo',
+  description: "Echoes back the user's message in an interactive view",
+  inputSchema: EchoToolInputSchema,
+  outputSchema: EchoToolOutputSchema,
+  widget: 'echo',
+  renderText({ echoedMessage, timestamp }) {
+    const quoted = echoedMessage
+      .split('\n')
+      .map((line) => `> ${line}`)
+      .join('\n');
+    return `**Echo**\n\n${quoted}\n\n_Echoed at ${timestamp}_`;
+  },
+  async handler(
+    { message, delaySeconds = 0 },
+    { sessionId, services, signal, reportProgress }
+  ) {
+    for (let elapsed = 0; elapsed < delaySeconds; elapsed++) {
+      await reportProgress({
+        progress: elapsed,
+        total: delaySeconds,
+        message: `Echoing in ${delaySeconds - elapsed}s`,
+      });
+      await sleep(1000, undefined, { signal });
+    }
+
+    const output = {
+      echoedMessage: message,
+      timestamp: new Date().toISOString(),
+    } satisfies EchoToolOutput;
+
+    if (sessionId) {
+      echoHistoryService(services)?.record(sessionId, output);
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Echoing: "${message}"`,
+        },
+      ],
+      structuredContent: output,
+    };
+  },
+});
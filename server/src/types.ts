@@ -8,24 +8,265 @@ export const EchoToolInputSchema = z.object({
     .string()
     .min(1, 'Message cannot be empty')
     .describe('The message to echo back'),
+  delaySeconds: z
+    .number()
+    .int()
+    .min(1)
+    .max(30)
+    .optional()
+    .describe('Echo slowly over this many seconds, reporting progress'),
 });
 
 export type EchoToolInput = z.infer<typeof EchoToolInputSchema>;
 
 /**
- * Echo tool structured content output
+ * Echo tool structured content output schema (Zod)
  */
-export interface EchoToolOutput {
-  echoedMessage: string;
-  timestamp: string;
-  [key: string]: unknown;
+export const EchoToolOutputSchema = z.object({
+  echoedMessage: z.string().describe('The message that was echoed'),
+  timestamp: z.iso.datetime().describe('When the message was echoed'),
+});
+
+export type EchoToolOutput = z.infer<typeof EchoToolOutputSchema>;
+
+/**
+ * Echo output kept in a session's history, with an ID to delete it by
+ */
+export const EchoHistoryEntrySchema = EchoToolOutputSchema.extend({
+  id: z.string().describe('Stable ID of this history entry'),
+});
+
+export type EchoHistoryEntry = z.infer<typeof EchoHistoryEntrySchema>;
+
+/**
+ * Contents of a session's `echo://history/{sessionId}` resource, oldest first
+ */
+export const EchoHistorySchema = z.object({
+  sessionId: z.string(),
+  entries: z.array(EchoHistoryEntrySchema),
+});
+
+export type EchoHistory = z.infer<typeof EchoHistorySchema>;
+
+export const ECHO_HISTORY_URI_PREFIX = 'echo://history/';
+
+/**
+ * echo_history tool input schema (Zod)
+ */
+export const EchoHistoryToolInputSchema = z.object({
+  query: z
+    .string()
+    .optional()
+    .describe('Only return messages containing this text (case-insensitive)'),
+});
+
+export type EchoHistoryToolInput = z.infer<typeof EchoHistoryToolInputSchema>;
+
+/**
+ * echo_history tool structured content output schema (Zod)
+ */
+export const EchoHistoryToolOutputSchema = z.object({
+  entries: z
+    .array(EchoHistoryEntrySchema)
+    .describe('Matching echoes in this session, oldest first'),
+  total: z
+    .number()
+    .int()
+    .nonnegative()
+    .describe('Echoes in this session before filtering'),
+});
+
+export type EchoHistoryToolOutput = z.infer<typeof EchoHistoryToolOutputSchema>;
+
+/**
+ * echo_clear_history tool input schema (Zod)
+ */
+export const EchoClearHistoryToolInputSchema = z.object({
+  id: z
+    .string()
+    .optional()
+    .describe('Delete only the history entry with this ID, omit to delete all'),
+});
+
+export type EchoClearHistoryToolInput = z.infer<
+  typeof EchoClearHistoryToolInputSchema
+>;
+
+/**
+ * echo_clear_history tool structured content output schema (Zod)
+ */
+export const EchoClearHistoryToolOutputSchema = z.object({
+  removed: z.number().int().nonnegative().describe('Echoes deleted'),
+  remaining: z.number().int().nonnegative().describe('Echoes left'),
+});
+
+export type EchoClearHistoryToolOutput = z.infer<
+  typeof EchoClearHistoryToolOutputSchema
+>;
+
+/**
+ * echo_forget tool input schema (Zod)
+ */
+export const EchoForgetToolInputSchema = z.object({
+  query: z
+    .string()
+    .trim()
+    .min(1, 'Query cannot be empty')
+    .describe('Forget echoes containing this text (case-insensitive)'),
+  confirm: z
+    .boolean()
+    .optional()
+    .describe(
+      'Set once the user has confirmed, only used by clients that cannot show the confirmation form'
+    ),
+});
+
+export type EchoForgetToolInput = z.infer<typeof EchoForgetToolInputSchema>;
+
+/**
+ * Confirmation form echo_forget elicits, `confirm` doubles as tool input
+ */
+export const EchoForgetConfirmationSchema = z.object({
+  confirm: z.boolean().describe('Forget these echoes'),
+});
+
+/**
+ * echo_forget tool structured content output schema (Zod)
+ */
+export const EchoForgetToolOutputSchema = z.object({
+  removed: z.number().int().nonnegative().describe('Echoes forgotten'),
+  remaining: z.number().int().nonnegative().describe('Echoes left'),
+});
+
+export type EchoForgetToolOutput = z.infer<typeof EchoForgetToolOutputSchema>;
+
+/**
+ * Built widget asset file (hashed filename and size in bytes)
+ */
+export const WidgetAssetFileSchema = z.object({
+  file: z.string(),
+  size: z.number().int().nonnegative(),
+});
+
+export type WidgetAssetFile = z.infer<typeof WidgetAssetFileSchema>;
+
+const CSP_PROTOCOLS = ['http:', 'https:', 'ws:', 'wss:'];
+
+/**
+ * `https://example.com/` -> `https://example.com`; undefined for anything
+ * that isn't a bare origin or a `*.` wildcard subdomain
+ */
+function normalizeOrigin(value: string): string | undefined {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return undefined;
+  }
+
+  const hostname = url.hostname.replace(/^\*\./, '');
+  if (
+    !CSP_PROTOCOLS.includes(url.protocol) ||
+    url.pathname !== '/' ||
+    url.search ||
+    url.hash ||
+    url.username ||
+    hostname.includes('*')
+  ) {
+    return undefined;
+  }
+  return `${url.protocol}//${url.host}`;
 }
 
 /**
- * Widget descriptor for tool metadata
+ * Origin in a widget CSP list, e.g. `https://api.example.com` or
+ * `https://*.example.com`
+ */
+export const CspOriginSchema = z.string().transform((value, ctx) => {
+  const origin = normalizeOrigin(value);
+  if (!origin) {
+    ctx.addIssue({
+      code: 'custom',
+      message: `"${value}" is not an origin (scheme://host[:port])`,
+    });
+    return z.NEVER;
+  }
+  return origin;
+});
+
+/**
+ * Origins a widget may reach, emitted as `_meta.ui.csp` on its resource
+ */
+export const WidgetCspSchema = z.object({
+  /** `fetch`/XHR/WebSocket targets */
+  connectDomains: z.array(CspOriginSchema).default([]),
+  /** Images, scripts, stylesheets, fonts and media */
+  resourceDomains: z.array(CspOriginSchema).default([]),
+  /** Nested iframes */
+  frameDomains: z.array(CspOriginSchema).default([]),
+});
+
+export type WidgetCsp = z.infer<typeof WidgetCspSchema>;
+
+export const WIDGET_PERMISSIONS = [
+  'camera',
+  'microphone',
+  'geolocation',
+  'clipboardWrite',
+] as const;
+
+/**
+ * `<widget>.widget.json`, declared next to the widget's source in
+ * `widgets/src/widgets/`
+ */
+export const WidgetDeclarationSchema = z.strictObject({
+  csp: WidgetCspSchema.optional(),
+  /** Ask the host for a visible border and background (`false` for none) */
+  prefersBorder: z.boolean().optional(),
+  /** Dedicated sandbox origin; the format is host-specific */
+  domain: z.string().min(1).optional(),
+  /** Browser capabilities to request; hosts may not grant them */
+  permissions: z.array(z.enum(WIDGET_PERMISSIONS)).optional(),
+});
+
+export type WidgetDeclaration = z.infer<typeof WidgetDeclarationSchema>;
+
+export const WIDGET_DECLARATION_SUFFIX = '.widget.json';
+
+/**
+ * Widget entry in the manifest emitted by the widget build
+ */
+export const WidgetManifestEntrySchema = z.object({
+  id: z.string().regex(/^[\w-]+$/, 'Widget id must be alphanumeric'),
+  title: z.string(),
+  html: z.string(),
+  js: WidgetAssetFileSchema.nullable(),
+  css: WidgetAssetFileSchema.nullable(),
+  /** Self-contained `<id>.inline.html`, when built with `INLINE_BUILD` */
+  inlineHtml: WidgetAssetFileSchema.nullable().optional(),
+  ...WidgetDeclarationSchema.shape,
+});
+
+export type WidgetManifestEntry = z.infer<typeof WidgetManifestEntrySchema>;
+
+/**
+ * Widget manifest (`widgets-manifest.json`) emitted by `widgetDiscoveryPlugin`
+ */
+export const WidgetManifestSchema = z.object({
+  version: z.literal(1),
+  generatedAt: z.string(),
+  widgets: z.array(WidgetManifestEntrySchema),
+});
+
+export type WidgetManifest = z.infer<typeof WidgetManifestSchema>;
+
+export const WIDGET_MANIFEST_FILENAME = 'widgets-manifest.json';
+
+/**
+ * Widget descriptor for tool and resource metadata. Besides its built files
+ * it carries what the widget declared in `<widget>.widget.json`: `csp`,
+ * `prefersBorder`, `domain` and `permissions`.
  */
-export interface WidgetDescriptor {
-  id: string;
-  title: string;
+export interface WidgetDescriptor extends WidgetManifestEntry {
   uri: string;
 }
@@ -0,0 +1,144 @@
+import fs from 'node:fs';
+import { Router, type RequestHandler } from 'express';
+import {
+  createLocalJWKSet,
+  jwtVerify,
+  type JSONWebKeySet,
+  type JWTPayload,
+} from 'jose';
+import { InvalidTokenError } from '@modelcontextprotocol/sdk/server/auth/errors.js';
+import { requireBearerAuth } from '@modelcontextprotocol/sdk/server/auth/middleware/bearerAuth.js';
+import type { OAuthTokenVerifier } from '@modelcontextprotocol/sdk/server/auth/provider.js';
+import { getOAuthProtectedResourceMetadataUrl } from '@modelcontextprotocol/sdk/server/auth/router.js';
+import type { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import type { Logger } from 'pino';
+
+export interface AuthOptions {
+  /** Authorization server issuer (`iss` claim) */
+  issuer: string;
+  /** Expected `aud` claim, usually the resource URL */
+  audience: string;
+  /** Local JWKS file holding the issuer's signing keys */
+  jwksPath: string;
+  /** Public URL of the `/mcp` endpoint, advertised as the protected resource */
+  resourceUrl: string;
+  /** Scopes every token must carry */
+  requiredScopes: string[];
+}
+
+/**
+ * Scopes from the `scope` (space-separated) or `scp` (array) claim
+ */
+function scopesFromClaims(claims: JWTPayload): string[] {
+  if (typeof claims.scope === 'string') {
+    return claims.scope.split(' ').filter(Boolean);
+  }
+  if (Array.isArray(claims.scp)) {
+    return claims.scp.filter((scope) => typeof scope === 'string');
+  }
+  return [];
+}
+
+/**
+ * Verifies JWT access tokens against a fixed issuer, audience and JWKS file
+ */
+export class JwtVerifier implements OAuthTokenVerifier {
+  private jwks: ReturnType<typeof createLocalJWKSet>;
+  private logger: Logger;
+  private options: Pick<AuthOptions, 'issuer' | 'audience'>;
+
+  constructor(
+    logger: Logger,
+    options: Pick<AuthOptions, 'issuer' | 'audience' | 'jwksPath'>
+  ) {
+    const keySet = JSON.parse(
+      fs.readFileSync(options.jwksPath, 'utf-8')
+    ) as JSONWebKeySet;
+
+    this.jwks = createLocalJWKSet(keySet);
+    this.logger = logger;
+    this.options = options;
+  }
+
+  async verifyAccessToken(token: string): Promise<AuthInfo> {
+    try {
+      const { payload } = await jwtVerify(token, this.jwks, {
+        issuer: this.options.issuer,
+        audience: this.options.audience,
+      });
+
+      const clientId =
+        typeof payload.client_id === 'string'
+          ? payload.client_id
+          : typeof payload.azp === 'string'
+            ? payload.azp
+            : (payload.sub ?? '');
+
+      return {
+        token,
+        clientId,
+        scopes: scopesFromClaims(payload),
+        expiresAt: payload.exp,
+        extra: { claims: payload },
+      };
+    } catch (err) {
+      this.logger.debug({ err }, 'Access token rejected');
+      throw new InvalidTokenError(
+        err instanceof Error ? err.message : 'Invalid access token'
+      );
+    }
+  }
+}
+
+/**
+ * Verified JWT claims for a request, if it was authenticated
+ */
+export function getClaims(authInfo?: AuthInfo): JWTPayload | undefined {
+  return authInfo?.extra?.claims as JWTPayload | undefined;
+}
+
+/**
+ * Create the OAuth protected resource metadata routes (RFC 9728) and the
+ * bearer-token middleware for `/mcp`
+ */
+export function createAuth(
+  logger: Logger,
+  options: AuthOptions
+): { metadataRouter: Router; requireAuth: RequestHandler } {
+  const resourceUrl = new URL(options.resourceUrl);
+  const resourceMetadataUrl = getOAuthProtectedResourceMetadataUrl(resourceUrl);
+  const metadata = {
+    resource: resourceUrl.href,
+    authorization_servers: [options.issuer],
+    scopes_supported:
+      options.requiredScopes.length > 0 ? options.requiredScopes : undefined,
+    bearer_methods_supported: ['header'],
+  };
+
+  const metadataRouter = Router();
+  const sendMetadata: RequestHandler = (_req, res) => {
+    res.json(metadata);
+  };
+  // Path-specific URL per RFC 9728, plus the root for clients that only
+  // look there
+  metadataRouter.get(new URL(resourceMetadataUrl).pathname, sendMetadata);
+  metadataRouter.get('/.well-known/oauth-protected-resource', sendMetadata);
+
+  const requireAuth = requireBearerAuth({
+    verifier: new JwtVerifier(logger, options),
+    requiredScopes: options.requiredScopes,
+    resourceMetadataUrl,
+  });
+
+  logger.info(
+    {
+      issuer: options.issuer,
+      audience: options.audience,
+      resource: resourceUrl.href,
+      requiredScopes: options.requiredScopes,
+    },
+    'Bearer token authentication enabled'
+  );
+
+  return { metadataRouter, requireAuth };
+}
@@ -0,0 +1,101 @@
+import { parse as parseHtml, type DefaultTreeAdapterTypes } from 'parse5';
+import type { WidgetCsp } from '../types.js';
+
+type HtmlNode = DefaultTreeAdapterTypes.Node;
+
+/** Attributes that load a resource, by element */
+const RESOURCE_ATTRIBUTES: Record<string, string[]> = {
+  script: ['src'],
+  link: ['href'],
+  img: ['src', 'srcset'],
+  source: ['src', 'srcset'],
+  video: ['src', 'poster'],
+  audio: ['src'],
+  track: ['src'],
+  iframe: ['src'],
+  object: ['data'],
+};
+
+/**
+ * Merge CSP lists, dropping duplicate origins
+ */
+export function mergeCsp(
+  ...sources: Array<Partial<WidgetCsp> | undefined>
+): WidgetCsp {
+  const merged = (key: keyof WidgetCsp) => [
+    ...new Set(sources.flatMap((source) => source?.[key] ?? [])),
+  ];
+
+  return {
+    connectDomains: merged('connectDomains'),
+    resourceDomains: merged('resourceDomains'),
+    frameDomains: merged('frameDomains'),
+  };
+}
+
+/**
+ * Whether `url` matches one of `origins`, which may use `*.` wildcard
+ * subdomains
+ */
+export function isOriginAllowed(url: URL, origins: string[]): boolean {
+  return origins.some((origin) => {
+    const wildcard = origin.match(/^([a-z]+:)\/\/\*\.(.+)$/);
+    if (!wildcard) {
+      return url.origin === origin;
+    }
+    const [, protocol, host] = wildcard;
+    return url.protocol === protocol && url.host.endsWith(`.${host}`);
+  });
+}
+
+/**
+ * Origins referenced from widget HTML (scripts, stylesheets, images, media
+ * and iframes) that `csp` doesn't allow. Relative URLs are ignored.
+ */
+export function findDisallowedOrigins(html: string, csp: WidgetCsp): string[] {
+  const disallowed = new Set<string>();
+
+  const check = (tagName: string, value: string) => {
+    let url: URL;
+    try {
+      url = new URL(value);
+    } catch {
+      return;
+    }
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+      return;
+    }
+
+    const origins =
+      tagName === 'iframe' ? csp.frameDomains : csp.resourceDomains;
+    if (!isOriginAllowed(url, origins)) {
+      disallowed.add(url.origin);
+    }
+  };
+
+  const visit = (node: HtmlNode) => {
+    if ('tagName' in node) {
+      for (const { name, value } of node.attrs) {
+        if (!RESOURCE_ATTRIBUTES[node.tagName]?.includes(name)) {
+          continue;
+        }
+        const urls =
+          name === 'srcset'
+            ? value
+                .split(',')
+                .map((candidate) => candidate.trim().split(/\s+/)[0])
+            : [value.trim()];
+        urls.forEach((url) => check(node.tagName, url));
+      }
+    }
+    if ('childNodes' in node) {
+      node.childNodes.forEach(visit);
+    }
+    if ('content' in node) {
+      visit(node.content);
+    }
+  };
+  visit(parseHtml(html));
+
+  return [...disallowed];
+}
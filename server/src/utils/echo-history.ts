@@ -0,0 +1,233 @@
+import { EventEmitter } from 'node:events';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  ResourceTemplate,
+  type McpServer,
+} from '@modelcontextprotocol/sdk/server/mcp.js';
+import {
+  ErrorCode,
+  McpError,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+import type { Logger } from 'pino';
+import {
+  ECHO_HISTORY_URI_PREFIX,
+  type EchoHistory,
+  type EchoHistoryEntry,
+  type EchoToolOutput,
+} from '../types.js';
+import type { SessionManager } from './session.js';
+import type { ToolServices } from './tool-registry.js';
+
+export interface EchoHistoryOptions {
+  /** Entries kept per session, oldest are dropped first */
+  maxEntries?: number;
+}
+
+/**
+ * `echo://history/{sessionId}` resource URI for a session
+ */
+export function echoHistoryUri(sessionId: string): string {
+  return `${ECHO_HISTORY_URI_PREFIX}${sessionId}`;
+}
+
+/** Name the store is shared with tools under, see {@link echoHistoryService} */
+export const ECHO_HISTORY_SERVICE = 'echoHistory';
+
+/**
+ * In-memory echo outputs per session. Emits `changed` with the session ID
+ * whenever a session's history changes.
+ */
+export class EchoHistoryStore extends EventEmitter<{
+  changed: [string];
+}> {
+  private sessions: Map<string, EchoHistoryEntry[]>;
+  private maxEntries: number;
+
+  constructor({ maxEntries = 100 }: EchoHistoryOptions = {}) {
+    super();
+    // Every open session's server listens for changes
+    this.setMaxListeners(0);
+    this.sessions = new Map();
+    this.maxEntries = maxEntries;
+  }
+
+  /**
+   * Append an echo output to a session's history under a new ID
+   */
+  record(sessionId: string, output: EchoToolOutput): EchoHistoryEntry {
+    const entry = { id: uuidv4(), ...output };
+    const entries = this.sessions.get(sessionId) ?? [];
+    entries.push(entry);
+    entries.splice(0, Math.max(entries.length - this.maxEntries, 0));
+    this.sessions.set(sessionId, entries);
+    this.emit('changed', sessionId);
+    return entry;
+  }
+
+  /**
+   * A session's history, oldest first
+   */
+  get(sessionId: string): EchoHistory {
+    return { sessionId, entries: [...(this.sessions.get(sessionId) ?? [])] };
+  }
+
+  /**
+   * Remove the session's entry with the given ID, or all of them, returning
+   * how many were removed
+   */
+  clear(sessionId: string, id?: string): number {
+    const entries = this.sessions.get(sessionId) ?? [];
+    const index =
+      id === undefined ? 0 : entries.findIndex((entry) => entry.id === id);
+    if (index === -1 || entries.length === 0) {
+      return 0;
+    }
+
+    const removed = entries.splice(
+      index,
+      id === undefined ? entries.length : 1
+    ).length;
+    this.emit('changed', sessionId);
+    return removed;
+  }
+
+  /**
+   * Remove a session's entries matching `predicate`, returning how many
+   * were removed
+   */
+  remove(
+    sessionId: string,
+    predicate: (entry: EchoHistoryEntry) => boolean
+  ): number {
+    const entries = this.sessions.get(sessionId) ?? [];
+    const kept = entries.filter((entry) => !predicate(entry));
+    const removed = entries.length - kept.length;
+    if (removed > 0) {
+      this.sessions.set(sessionId, kept);
+      this.emit('changed', sessionId);
+    }
+    return removed;
+  }
+
+  /**
+   * Forget a session's history
+   */
+  delete(sessionId: string): void {
+    if (this.sessions.delete(sessionId)) {
+      this.emit('changed', sessionId);
+    }
+  }
+
+  /**
+   * Drop histories of sessions once they close or expire
+   */
+  trackSessions(sessionManager: SessionManager): void {
+    sessionManager.on('lifecycle', (event) => {
+      if (event.type !== 'created') {
+        this.delete(event.sessionId);
+      }
+    });
+  }
+}
+
+/**
+ * The echo history store among a tool call's services, undefined when the
+ * server doesn't share one
+ */
+export function echoHistoryService(
+  services: ToolServices
+): EchoHistoryStore | undefined {
+  const store = services[ECHO_HISTORY_SERVICE];
+  return store instanceof EchoHistoryStore ? store : undefined;
+}
+
+interface RegisterEchoHistoryOptions {
+  /** Undefined in stateless mode, where there is no history to expose */
+  sessionId?: string;
+  logger: Logger;
+}
+
+/**
+ * Register the `echo://history/{sessionId}` resource template on a session's
+ * MCP server. A session can list and read only its own history, and
+ * subscribers get `notifications/resources/updated` when it changes.
+ */
+export function registerEchoHistory(
+  server: McpServer,
+  history: EchoHistoryStore,
+  { sessionId, logger }: RegisterEchoHistoryOptions
+): void {
+  server.registerResource(
+    'echo-history',
+    new ResourceTemplate(`${ECHO_HISTORY_URI_PREFIX}{sessionId}`, {
+      list: () => ({
+        resources: sessionId
+          ? [
+              {
+                uri: echoHistoryUri(sessionId),
+                name: 'echo-history',
+                title: 'Echo history',
+                mimeType: 'application/json',
+              },
+            ]
+          : [],
+      }),
+    }),
+    {
+      title: 'Echo history',
+      description: 'Messages echoed in this session, oldest first',
+      mimeType: 'application/json',
+    },
+    (uri, variables) => {
+      if (!sessionId || variables.sessionId !== sessionId) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `Resource ${uri.href} not found`
+        );
+      }
+
+      return {
+        contents: [
+          {
+            uri: uri.href,
+            mimeType: 'application/json',
+            text: JSON.stringify(history.get(sessionId)),
+          },
+        ],
+      };
+    }
+  );
+
+  const subscriptions = new Set<string>();
+
+  server.server.registerCapabilities({ resources: { subscribe: true } });
+  server.server.setRequestHandler(SubscribeRequestSchema, ({ params }) => {
+    subscriptions.add(params.uri);
+    logger.debug({ uri: params.uri }, 'Resource subscribed');
+    return {};
+  });
+  server.server.setRequestHandler(UnsubscribeRequestSchema, ({ params }) => {
+    subscriptions.delete(params.uri);
+    logger.debug({ uri: params.uri }, 'Resource unsubscribed');
+    return {};
+  });
+
+  const onChanged = (changedSessionId: string) => {
+    const uri = echoHistoryUri(changedSessionId);
+    if (changedSessionId !== sessionId || !subscriptions.has(uri)) {
+      return;
+    }
+    server.server.sendResourceUpdated({ uri }).catch((err) => {
+      logger.warn({ err, uri }, 'Failed to send resource update');
+    });
+  };
+  history.on('changed', onChanged);
+
+  const close = server.server.onclose;
+  server.server.onclose = () => {
+    history.off('changed', onChanged);
+    close?.();
+  };
+}
@@ -0,0 +1,114 @@
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import type { RequestOptions } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import type {
+  ClientCapabilities,
+  ElicitRequestFormParams,
+} from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+
+export type RequestedSchema = ElicitRequestFormParams['requestedSchema'];
+
+/**
+ * What the user did with an elicitation form; `content` is only present,
+ * and validated against the form schema, when they accepted
+ */
+export type ElicitationResult<T> =
+  | { action: 'accept'; content: T }
+  | { action: 'decline' | 'cancel' };
+
+/** JSON Schema types a form field can have */
+const FIELD_TYPES = ['string', 'number', 'integer', 'boolean'];
+
+/**
+ * Thrown by `context.elicit()` when the client can't show forms. The tool
+ * registry returns it as an `isError` result asking the model to collect
+ * the fields from the user and call the tool again.
+ */
+export class ElicitationUnsupportedError extends Error {
+  readonly requestedSchema: RequestedSchema;
+
+  constructor(message: string, requestedSchema: RequestedSchema) {
+    const fields = Object.entries(requestedSchema.properties).map(
+      ([name, field]) =>
+        `  - ${name} (${field.type})${field.description ? `: ${field.description}` : ''}`
+    );
+    super(
+      `${message}\n\nThis client can't ask the user directly. Ask the user, then call this tool again with:\n${fields.join('\n')}`
+    );
+    this.name = 'ElicitationUnsupportedError';
+    this.requestedSchema = requestedSchema;
+  }
+}
+
+/**
+ * Whether the client accepts form elicitation requests. A bare
+ * `elicitation: {}` from clients predating URL mode means forms.
+ */
+export function supportsFormElicitation(
+  capabilities: ClientCapabilities | undefined
+): boolean {
+  const elicitation = capabilities?.elicitation;
+  return Boolean(elicitation && (elicitation.form || !elicitation.url));
+}
+
+/**
+ * Flat JSON Schema for an elicitation form. Forms only hold strings,
+ * numbers, booleans and enums, so nested fields are rejected.
+ */
+export function toRequestedSchema(schema: z.ZodObject): RequestedSchema {
+  const { properties = {}, required } = z.toJSONSchema(schema, {
+    io: 'input',
+  }) as {
+    properties?: Record<string, { type?: string }>;
+    required?: string[];
+  };
+
+  for (const [name, field] of Object.entries(properties)) {
+    if (!field.type || !FIELD_TYPES.includes(field.type)) {
+      throw new Error(
+        `Elicitation field "${name}" must be a string, number, integer, boolean or enum`
+      );
+    }
+  }
+
+  return {
+    type: 'object',
+    properties: properties as RequestedSchema['properties'],
+    required,
+  };
+}
+
+/**
+ * Ask the user to fill in a form derived from `schema`. Throws
+ * {@link ElicitationUnsupportedError} when the client can't show forms.
+ */
+export async function elicit<T extends z.ZodObject>(
+  server: Server,
+  message: string,
+  schema: T,
+  options?: RequestOptions
+): Promise<ElicitationResult<z.infer<T>>> {
+  const requestedSchema = toRequestedSchema(schema);
+
+  if (!supportsFormElicitation(server.getClientCapabilities())) {
+    throw new ElicitationUnsupportedError(message, requestedSchema);
+  }
+
+  const result = await server.elicitInput(
+    { mode: 'form', message, requestedSchema },
+    options
+  );
+
+  if (result.action !== 'accept') {
+    return { action: result.action };
+  }
+
+  const content = schema.safeParse(result.content);
+  if (!content.success) {
+    throw new Error(
+      `Elicitation response does not match the form: ${content.error.issues.map((issue) => issue.message).join(', ')}`
+    );
+  }
+
+  return { action: 'accept', content: content.data };
+}
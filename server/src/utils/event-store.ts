@@ -0,0 +1,456 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import type {
+  EventId,
+  EventStore as SdkEventStore,
+  StreamId,
+} from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import type {
+  InitializeRequest,
+  JSONRPCMessage,
+} from '@modelcontextprotocol/sdk/types.js';
+import type { Logger } from 'pino';
+
+/**
+ * Persisted state needed to restore a session after a restart
+ */
+export interface SessionRecord {
+  sessionId: string;
+  /** ISO timestamp of the original `initialize` request */
+  createdAt: string;
+  /** Client that opened the session (token subject or IP address) */
+  identity?: string;
+  /** Token subject (or client ID) that owns the session when auth is enabled */
+  owner?: string;
+  initializeParams: InitializeRequest['params'];
+}
+
+/**
+ * Session-scoped storage for resumable stream events.
+ * Each session gets an SDK event store view that only replays its own events.
+ */
+export interface EventStore {
+  forSession(sessionId: string): SdkEventStore;
+  saveSession(record: SessionRecord): Promise<void>;
+  getSession(sessionId: string): Promise<SessionRecord | undefined>;
+  deleteSession(sessionId: string): Promise<void>;
+  close(): Promise<void>;
+}
+
+export type EventStoreBackend = 'memory' | 'file';
+
+export interface EventStoreOptions {
+  /** Oldest events are dropped once a session holds this many */
+  maxEventsPerSession: number;
+  /** Events older than this (in milliseconds) are no longer replayed */
+  ttl: number;
+}
+
+export interface FileEventStoreOptions extends EventStoreOptions {
+  /** Append-only JSONL file holding events and session records */
+  filePath: string;
+}
+
+interface StoredEvent {
+  eventId: EventId;
+  streamId: StreamId;
+  message: JSONRPCMessage;
+  storedAt: number;
+}
+
+interface SessionEntry {
+  record?: SessionRecord;
+  events: StoredEvent[];
+}
+
+type StoreLine =
+  | ({ type: 'event'; sessionId: string } & StoredEvent)
+  | { type: 'session'; record: SessionRecord }
+  | { type: 'delete'; sessionId: string };
+
+function generateEventId(streamId: StreamId): EventId {
+  const random = Math.random().toString(36).substring(2, 10);
+  return `${streamId}_${Date.now().toString(36)}_${random}`;
+}
+
+/**
+ * Bounded in-memory event store: keeps at most `maxEventsPerSession` events
+ * per session and drops events older than `ttl`
+ */
+export class MemoryEventStore implements EventStore {
+  protected sessions: Map<string, SessionEntry>;
+  protected logger: Logger;
+  protected options: EventStoreOptions;
+  private totalEvents = 0;
+
+  constructor(logger: Logger, options: EventStoreOptions) {
+    this.sessions = new Map();
+    this.logger = logger;
+    this.options = options;
+  }
+
+  forSession(sessionId: string): SdkEventStore {
+    return {
+      storeEvent: async (streamId, message) =>
+        this.storeEvent(sessionId, streamId, message),
+      getStreamIdForEventId: async (eventId) =>
+        this.findEvent(sessionId, eventId)?.streamId,
+      replayEventsAfter: async (lastEventId, { send }) =>
+        this.replayEventsAfter(sessionId, lastEventId, send),
+    };
+  }
+
+  async saveSession(record: SessionRecord): Promise<void> {
+    this.entry(record.sessionId).record = record;
+  }
+
+  async getSession(sessionId: string): Promise<SessionRecord | undefined> {
+    return this.sessions.get(sessionId)?.record;
+  }
+
+  async deleteSession(sessionId: string): Promise<void> {
+    this.totalEvents -= this.sessions.get(sessionId)?.events.length ?? 0;
+    this.sessions.delete(sessionId);
+  }
+
+  async close(): Promise<void> {
+    this.sessions.clear();
+    this.totalEvents = 0;
+  }
+
+  /**
+   * Total number of retained events across all sessions
+   */
+  eventCount(): number {
+    return this.totalEvents;
+  }
+
+  protected storeEvent(
+    sessionId: string,
+    streamId: StreamId,
+    message: JSONRPCMessage
+  ): EventId {
+    const event: StoredEvent = {
+      eventId: generateEventId(streamId),
+      streamId,
+      message,
+      storedAt: Date.now(),
+    };
+
+    this.appendEvent(sessionId, event);
+    return event.eventId;
+  }
+
+  /**
+   * Add an event to a session, enforcing the per-session cap and TTL
+   */
+  protected appendEvent(sessionId: string, event: StoredEvent): void {
+    const entry = this.entry(sessionId);
+    entry.events.push(event);
+    this.totalEvents++;
+    this.prune(entry);
+
+    const overflow = entry.events.length - this.options.maxEventsPerSession;
+    if (overflow > 0) {
+      entry.events.splice(0, overflow);
+      this.totalEvents -= overflow;
+      this.logger.debug(
+        { sessionId, dropped: overflow },
+        'Event store cap reached, dropped oldest events'
+      );
+    }
+  }
+
+  private async replayEventsAfter(
+    sessionId: string,
+    lastEventId: EventId,
+    send: (eventId: EventId, message: JSONRPCMessage) => Promise<void>
+  ): Promise<StreamId> {
+    const lastEvent = this.findEvent(sessionId, lastEventId);
+
+    if (!lastEvent) {
+      this.logger.warn(
+        { sessionId, lastEventId },
+        'Cannot replay events: last event ID not found or expired'
+      );
+      return '';
+    }
+
+    const { events } = this.entry(sessionId);
+    const start = events.indexOf(lastEvent) + 1;
+    const replayed = events
+      .slice(start)
+      .filter((event) => event.streamId === lastEvent.streamId);
+
+    for (const event of replayed) {
+      await send(event.eventId, event.message);
+    }
+
+    this.logger.info(
+      { sessionId, lastEventId, replayed: replayed.length },
+      'Replayed stream events'
+    );
+
+    return lastEvent.streamId;
+  }
+
+  private findEvent(
+    sessionId: string,
+    eventId: EventId
+  ): StoredEvent | undefined {
+    const entry = this.sessions.get(sessionId);
+
+    if (!entry) {
+      return undefined;
+    }
+
+    this.prune(entry);
+    return entry.events.find((event) => event.eventId === eventId);
+  }
+
+  private entry(sessionId: string): SessionEntry {
+    let entry = this.sessions.get(sessionId);
+
+    if (!entry) {
+      entry = { events: [] };
+      this.sessions.set(sessionId, entry);
+    }
+
+    return entry;
+  }
+
+  private prune(entry: SessionEntry): void {
+    const cutoff = Date.now() - this.options.ttl;
+    const firstLive = entry.events.findIndex(
+      (event) => event.storedAt >= cutoff
+    );
+
+    if (firstLive === -1) {
+      this.totalEvents -= entry.events.length;
+      entry.events.length = 0;
+    } else if (firstLive > 0) {
+      this.totalEvents -= firstLive;
+      entry.events.splice(0, firstLive);
+    }
+  }
+}
+
+/**
+ * Event store persisted to an append-only JSONL file so sessions and their
+ * streams survive a server restart. Lines go through a buffered write
+ * stream so streaming never waits on the disk. The file is compacted on
+ * open, on close and whenever it holds many more lines than live entries.
+ */
+export class FileEventStore extends MemoryEventStore {
+  private filePath: string;
+  private stream: fs.WriteStream;
+  private linesWritten = 0;
+  private compaction?: Promise<void>;
+
+  constructor(logger: Logger, options: FileEventStoreOptions) {
+    super(logger, options);
+    this.filePath = options.filePath;
+    this.load();
+    this.stream = this.openStream(this.filePath, 'a');
+  }
+
+  override async saveSession(record: SessionRecord): Promise<void> {
+    await super.saveSession(record);
+    this.append({ type: 'session', record });
+  }
+
+  override async deleteSession(sessionId: string): Promise<void> {
+    await super.deleteSession(sessionId);
+    this.append({ type: 'delete', sessionId });
+  }
+
+  /**
+   * Wait until every line appended so far has been written to the file
+   */
+  async flush(): Promise<void> {
+    await this.compaction;
+    await new Promise<void>((resolve, reject) =>
+      this.stream.write('', (err) => (err ? reject(err) : resolve()))
+    );
+  }
+
+  override async close(): Promise<void> {
+    await this.compaction;
+    await new Promise<void>((resolve) => this.stream.end(resolve));
+
+    const { text } = this.snapshot();
+    const tempPath = `${this.filePath}.tmp`;
+    await fs.promises.writeFile(tempPath, text);
+    await fs.promises.rename(tempPath, this.filePath);
+
+    await super.close();
+  }
+
+  protected override storeEvent(
+    sessionId: string,
+    streamId: StreamId,
+    message: JSONRPCMessage
+  ): EventId {
+    const eventId = super.storeEvent(sessionId, streamId, message);
+    const event = this.sessions.get(sessionId)?.events.at(-1);
+
+    if (event?.eventId === eventId) {
+      this.append({ type: 'event', sessionId, ...event });
+    }
+
+    return eventId;
+  }
+
+  private load(): void {
+    if (!fs.existsSync(this.filePath)) {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      return;
+    }
+
+    const lines = fs.readFileSync(this.filePath, 'utf-8').split('\n');
+    let skipped = 0;
+
+    for (const line of lines) {
+      if (!line.trim()) {
+        continue;
+      }
+
+      try {
+        this.apply(JSON.parse(line) as StoreLine);
+      } catch {
+        skipped++;
+      }
+    }
+
+    if (skipped > 0) {
+      this.logger.warn(
+        { filePath: this.filePath, skipped },
+        'Skipped unreadable event store lines'
+      );
+    }
+
+    // Startup is the one place a blocking rewrite is fine
+    const { text, count } = this.snapshot();
+    const tempPath = `${this.filePath}.tmp`;
+    fs.writeFileSync(tempPath, text);
+    fs.renameSync(tempPath, this.filePath);
+    this.linesWritten = count;
+
+    this.logger.info(
+      {
+        filePath: this.filePath,
+        sessions: this.sessions.size,
+        events: this.eventCount(),
+      },
+      'Loaded event store'
+    );
+  }
+
+  private apply(line: StoreLine): void {
+    switch (line.type) {
+      case 'event': {
+        const { sessionId, eventId, streamId, message, storedAt } = line;
+        this.appendEvent(sessionId, { eventId, streamId, message, storedAt });
+        break;
+      }
+      case 'session':
+        void super.saveSession(line.record);
+        break;
+      case 'delete':
+        void super.deleteSession(line.sessionId);
+        break;
+    }
+  }
+
+  private openStream(filePath: string, flags: 'a' | 'w'): fs.WriteStream {
+    const stream = fs.createWriteStream(filePath, { flags });
+    stream.on('error', (err) => {
+      this.logger.error({ err, filePath }, 'Event store write failed');
+    });
+    return stream;
+  }
+
+  private append(line: StoreLine): void {
+    this.stream.write(`${JSON.stringify(line)}\n`);
+    this.linesWritten++;
+
+    const live = this.sessions.size + this.eventCount();
+    if (!this.compaction && this.linesWritten > Math.max(1000, live * 2)) {
+      this.compaction = this.compact()
+        .catch((err) => {
+          this.logger.error(
+            { err, filePath: this.filePath },
+            'Event store compaction failed'
+          );
+        })
+        .finally(() => {
+          this.compaction = undefined;
+        });
+    }
+  }
+
+  /**
+   * Rewrite the file with only live session records and events. Lines
+   * appended meanwhile go to the new file right after the snapshot.
+   */
+  private async compact(): Promise<void> {
+    const { text, count } = this.snapshot();
+    const tempPath = `${this.filePath}.tmp`;
+    const previous = this.stream;
+
+    this.stream = this.openStream(tempPath, 'w');
+    this.linesWritten = count;
+
+    await Promise.all([
+      new Promise<void>((resolve) => previous.end(resolve)),
+      new Promise<void>((resolve, reject) =>
+        this.stream.write(text, (err) => (err ? reject(err) : resolve()))
+      ),
+    ]);
+    await fs.promises.rename(tempPath, this.filePath);
+  }
+
+  /**
+   * JSONL text holding only live session records and events
+   */
+  private snapshot(): { text: string; count: number } {
+    const lines: string[] = [];
+
+    for (const [sessionId, { record, events }] of this.sessions) {
+      if (record) {
+        lines.push(JSON.stringify({ type: 'session', record }));
+      }
+      for (const event of events) {
+        lines.push(JSON.stringify({ type: 'event', sessionId, ...event }));
+      }
+    }
+
+    return {
+      text: lines.length > 0 ? `${lines.join('\n')}\n` : '',
+      count: lines.length,
+    };
+  }
+}
+
+/**
+ * Create the event store backend selected by configuration
+ */
+export function createEventStore(
+  logger: Logger,
+  backend: EventStoreBackend,
+  options: FileEventStoreOptions
+): EventStore {
+  logger.info(
+    {
+      backend,
+      filePath: backend === 'file' ? options.filePath : undefined,
+      maxEventsPerSession: options.maxEventsPerSession,
+      ttl: options.ttl,
+    },
+    'Creating event store'
+  );
+
+  return backend === 'file'
+    ? new FileEventStore(logger, options)
+    : new MemoryEventStore(logger, options);
+}
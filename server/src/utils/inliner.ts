@@ -0,0 +1,548 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import * as csstree from 'css-tree';
+import { init, parse as parseModule } from 'es-module-lexer';
+import { parse as parseHtml, type DefaultTreeAdapterTypes } from 'parse5';
+
+type HtmlNode = DefaultTreeAdapterTypes.Node;
+type HtmlElement = DefaultTreeAdapterTypes.Element;
+
+export interface InlineOptions {
+  /** Directory holding the built widget files */
+  assetsDir: string;
+  /**
+   * URL prefixes that point into `assetsDir`, e.g. the Vite dev origin and
+   * `BASE_URL` baked into the hosted HTML
+   */
+  publicUrls?: string[];
+  /** Largest single embedded file in bytes, 0 for no limit */
+  maxAssetBytes?: number;
+  /** Largest inlined document in bytes, 0 for no limit */
+  maxTotalBytes?: number;
+}
+
+export interface InlineResult {
+  html: string;
+  /** Embedded files, relative to `assetsDir`, and their size in bytes */
+  assets: Array<{ file: string; bytes: number }>;
+  /** References to other origins, left as-is */
+  externalUrls: string[];
+}
+
+/**
+ * Thrown when a widget can't be made self-contained: a missing file, a CSS
+ * `@import` cycle or a blown size budget
+ */
+export class InlineError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InlineError';
+  }
+}
+
+const MIME_TYPES: Record<string, string> = {
+  '.js': 'text/javascript',
+  '.mjs': 'text/javascript',
+  '.css': 'text/css',
+  '.json': 'application/json',
+  '.wasm': 'application/wasm',
+  '.woff2': 'font/woff2',
+  '.woff': 'font/woff',
+  '.ttf': 'font/ttf',
+  '.otf': 'font/otf',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.avif': 'image/avif',
+  '.svg': 'image/svg+xml',
+  '.ico': 'image/x-icon',
+  '.mp4': 'video/mp4',
+  '.webm': 'video/webm',
+  '.mp3': 'audio/mpeg',
+};
+
+/** Elements whose attributes hold a single asset URL */
+const URL_ATTRIBUTES: Record<string, string[]> = {
+  img: ['src'],
+  source: ['src'],
+  video: ['src', 'poster'],
+  audio: ['src'],
+  track: ['src'],
+  input: ['src'],
+};
+
+/** `<link rel>` values whose targets get embedded where they're used */
+const PRELOAD_RELS = ['modulepreload', 'preload', 'prefetch'];
+
+/** Bare specifier prefix the import map resolves to embedded chunks */
+const MODULE_PREFIX = '@inline/';
+
+interface Edit {
+  start: number;
+  end: number;
+  text: string;
+}
+
+function applyEdits(source: string, edits: Edit[]): string {
+  return [...edits]
+    .sort((a, b) => b.start - a.start)
+    .reduce(
+      (result, edit) =>
+        result.slice(0, edit.start) + edit.text + result.slice(edit.end),
+      source
+    );
+}
+
+function escapeAttribute(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;');
+}
+
+/**
+ * Recursively embeds everything a built widget loads: module scripts and the
+ * chunks they import, stylesheets with their `@import`s, and fonts and images
+ * referenced from CSS `url()` or HTML attributes. Each instance inlines one
+ * document.
+ *
+ * Chunks import each other through an import map rather than by `data:` URL,
+ * so a lazy chunk that imports back from the entry resolves to the same
+ * module instance instead of nesting the entry inside itself.
+ */
+class Inliner {
+  private dataUrls: Map<string, string>;
+  private assets: Map<string, number>;
+  private externalUrls: Set<string>;
+  /** Chunks imported by other modules, and the first file importing each */
+  private importedModules: Map<string, string>;
+  /** Files being embedded, to report CSS import cycles */
+  private stack: string[];
+  private publicUrls: string[];
+  private options: InlineOptions;
+
+  constructor(options: InlineOptions) {
+    this.dataUrls = new Map();
+    this.assets = new Map();
+    this.externalUrls = new Set();
+    this.importedModules = new Map();
+    this.stack = [];
+    this.options = options;
+    this.publicUrls = (options.publicUrls ?? []).map((url) =>
+      url.endsWith('/') ? url : `${url}/`
+    );
+  }
+
+  inline(html: string): InlineResult {
+    const result = this.inlineHtml(html);
+    const bytes = Buffer.byteLength(result);
+    const { maxTotalBytes } = this.options;
+
+    if (maxTotalBytes && bytes > maxTotalBytes) {
+      throw new InlineError(
+        `Inlined widget is ${bytes} bytes, over the ${maxTotalBytes} byte budget`
+      );
+    }
+
+    return {
+      html: result,
+      assets: [...this.assets].map(([file, size]) => ({ file, bytes: size })),
+      externalUrls: [...this.externalUrls],
+    };
+  }
+
+  private inlineHtml(html: string): string {
+    const document = parseHtml(html, { sourceCodeLocationInfo: true });
+    const edits: Edit[] = [];
+    let firstScript: number | undefined;
+
+    const visit = (node: HtmlNode) => {
+      if ('tagName' in node) {
+        if (node.tagName === 'script') {
+          firstScript ??= node.sourceCodeLocation?.startOffset;
+        }
+        edits.push(...this.elementEdits(node));
+      }
+      if ('childNodes' in node) {
+        node.childNodes.forEach(visit);
+      }
+      if ('content' in node) {
+        visit(node.content);
+      }
+    };
+    visit(document);
+
+    const importMap = this.importMap();
+    if (importMap) {
+      // Import maps must come before the module scripts that rely on them
+      edits.push({
+        start: firstScript ?? 0,
+        end: firstScript ?? 0,
+        text: `<script type="importmap">${importMap.replace(/<\/script/gi, '<\\/script')}</script>`,
+      });
+    }
+
+    return applyEdits(html, edits);
+  }
+
+  /**
+   * Import map JSON for every chunk another module imports, embedding each
+   * one. Embedding a chunk can add more, which the loop picks up.
+   */
+  private importMap(): string | undefined {
+    const imports: Record<string, string> = {};
+
+    for (const [file, importer] of this.importedModules) {
+      this.stack.push(importer);
+      try {
+        imports[`${MODULE_PREFIX}${file}`] = this.embed({ file, hash: '' });
+      } finally {
+        this.stack.pop();
+      }
+    }
+
+    return this.importedModules.size > 0
+      ? JSON.stringify({ imports })
+      : undefined;
+  }
+
+  private elementEdits(element: HtmlElement): Edit[] {
+    const edits: Edit[] = [];
+    const location = element.sourceCodeLocation;
+    if (!location) {
+      return edits;
+    }
+
+    const attr = (name: string) =>
+      element.attrs.find((attribute) => attribute.name === name)?.value;
+    const setAttr = (name: string, value: string) => {
+      const attrLocation = location.attrs?.[name];
+      if (attrLocation) {
+        edits.push({
+          start: attrLocation.startOffset,
+          end: attrLocation.endOffset,
+          text: `${name}="${escapeAttribute(value)}"`,
+        });
+      }
+    };
+    const setText = (transform: (text: string) => string) => {
+      const [child] = element.childNodes;
+      if (child && 'value' in child && child.sourceCodeLocation) {
+        edits.push({
+          start: child.sourceCodeLocation.startOffset,
+          end: child.sourceCodeLocation.endOffset,
+          text: transform(child.value),
+        });
+      }
+    };
+
+    const style = attr('style');
+    if (style !== undefined) {
+      setAttr('style', this.inlineCss(style, '', 'declarationList'));
+    }
+
+    switch (element.tagName) {
+      case 'script': {
+        const src = attr('src');
+        const file = src !== undefined && this.resolve(src, '');
+        if (file) {
+          setAttr('src', this.embed(file));
+        } else if (src === undefined && attr('type') === 'module') {
+          setText((code) =>
+            this.inlineModuleSource(code, '').replace(
+              /<\/script/gi,
+              '<\\/script'
+            )
+          );
+        }
+        break;
+      }
+      case 'style':
+        setText((css) =>
+          this.inlineCss(css, '').replace(/<\/style/gi, '<\\/style')
+        );
+        break;
+      case 'link': {
+        const href = attr('href');
+        const file = href !== undefined && this.resolve(href, '');
+        if (!file) {
+          break;
+        }
+        const rels = (attr('rel') ?? '').toLowerCase().split(/\s+/);
+
+        if (rels.includes('stylesheet')) {
+          const media = attr('media');
+          const css = this.inlineCssFile(file.file).replace(
+            /<\/style/gi,
+            '<\\/style'
+          );
+          edits.push({
+            start: location.startOffset,
+            end: location.endOffset,
+            text: `<style${media ? ` media="${escapeAttribute(media)}"` : ''}>${css}</style>`,
+          });
+        } else if (rels.some((rel) => PRELOAD_RELS.includes(rel))) {
+          edits.push({
+            start: location.startOffset,
+            end: location.endOffset,
+            text: '',
+          });
+        } else {
+          setAttr('href', this.embed(file));
+        }
+        break;
+      }
+      default:
+        for (const name of URL_ATTRIBUTES[element.tagName] ?? []) {
+          const value = attr(name);
+          const file = value !== undefined && this.resolve(value, '');
+          if (file) {
+            setAttr(name, this.embed(file));
+          }
+        }
+        if (element.tagName === 'img' || element.tagName === 'source') {
+          const srcset = attr('srcset');
+          if (srcset !== undefined && !srcset.includes('data:')) {
+            setAttr('srcset', this.inlineSrcset(srcset));
+          }
+        }
+    }
+
+    return edits;
+  }
+
+  private inlineSrcset(srcset: string): string {
+    return srcset
+      .split(',')
+      .map((candidate) => {
+        const [url, ...descriptors] = candidate.trim().split(/\s+/);
+        const file = url && this.resolve(url, '');
+        return [file ? this.embed(file) : url, ...descriptors].join(' ');
+      })
+      .join(', ');
+  }
+
+  /**
+   * Embed `url()` references and inline `@import`s. `fromFile` is the
+   * stylesheet's path, which relative URLs resolve against.
+   */
+  private inlineCss(
+    css: string,
+    fromFile: string,
+    context?: 'declarationList'
+  ): string {
+    const ast = csstree.parse(css, { positions: true, context });
+    const edits: Edit[] = [];
+    const replace = (node: csstree.CssNode, text: string) => {
+      if (node.loc) {
+        edits.push({
+          start: node.loc.start.offset,
+          end: node.loc.end.offset,
+          text,
+        });
+      }
+    };
+
+    // `@import` targets are handled with their rule rather than as `url()`s
+    const importTargets = new Set<csstree.CssNode>();
+
+    csstree.walk(ast, (node) => {
+      if (
+        node.type === 'Atrule' &&
+        node.name.toLowerCase() === 'import' &&
+        node.prelude?.type === 'AtrulePrelude'
+      ) {
+        const prelude = node.prelude.children
+          .toArray()
+          .filter((child) => child.type !== 'WhiteSpace');
+        const [target] = prelude;
+        if (target?.type !== 'Url' && target?.type !== 'String') {
+          return;
+        }
+        importTargets.add(target);
+
+        const file = this.resolve(target.value, fromFile);
+        if (!file) {
+          return;
+        }
+        // Conditional imports (media, layer, supports) keep their rule
+        if (prelude.length === 1) {
+          replace(node, this.inlineCssFile(file.file));
+        } else {
+          replace(target, `url("${this.embed(file)}")`);
+        }
+      } else if (node.type === 'Url' && !importTargets.has(node)) {
+        const file = this.resolve(node.value, fromFile);
+        if (file) {
+          replace(node, `url("${this.embed(file)}")`);
+        }
+      }
+    });
+
+    return applyEdits(css, edits);
+  }
+
+  private inlineCssFile(file: string): string {
+    const css = this.read(file).toString('utf-8');
+    return this.withCycleCheck(file, () => this.inlineCss(css, file));
+  }
+
+  /**
+   * Point static and dynamic imports at embedded chunks: other modules
+   * through the import map, anything else by `data:` URL. Bare specifiers
+   * are left alone; a built widget shouldn't have any.
+   */
+  private inlineModuleSource(code: string, fromFile: string): string {
+    const [imports] = parseModule(code);
+    const edits: Edit[] = [];
+
+    for (const entry of imports) {
+      if (
+        entry.type === 'import-meta' ||
+        ('typeOnly' in entry && entry.typeOnly) ||
+        entry.specifier === undefined ||
+        (entry.type === 'dynamic' && entry.glob) ||
+        !/^(\.{0,2}\/|[a-z][a-z\d+.-]*:)/i.test(entry.specifier)
+      ) {
+        continue;
+      }
+
+      const file = this.resolve(entry.specifier, fromFile);
+      if (file) {
+        const url = this.isModule(file.file)
+          ? this.moduleSpecifier(file.file, fromFile)
+          : this.embed(file);
+        edits.push({
+          start: entry.start,
+          end: entry.end,
+          // Dynamic import positions include the quotes
+          text: entry.type === 'dynamic' ? JSON.stringify(url) : url,
+        });
+      }
+    }
+
+    return applyEdits(code, edits);
+  }
+
+  private isModule(file: string): boolean {
+    return MIME_TYPES[path.extname(file).toLowerCase()] === 'text/javascript';
+  }
+
+  /**
+   * Import map specifier for a chunk, embedded later by {@link importMap}
+   */
+  private moduleSpecifier(file: string, fromFile: string): string {
+    if (!this.importedModules.has(file)) {
+      this.importedModules.set(file, fromFile || 'the widget HTML');
+    }
+    return `${MODULE_PREFIX}${file}`;
+  }
+
+  /**
+   * `data:` URL for a file, embedding whatever it references in turn
+   */
+  private embed(target: { file: string; hash: string }): string {
+    const { file, hash } = target;
+    let dataUrl = this.dataUrls.get(file);
+
+    if (!dataUrl) {
+      const extension = path.extname(file).toLowerCase();
+      const mimeType = MIME_TYPES[extension] ?? 'application/octet-stream';
+      let data: Buffer;
+
+      if (mimeType === 'text/javascript') {
+        const code = this.read(file).toString('utf-8');
+        data = Buffer.from(this.inlineModuleSource(code, file));
+      } else if (mimeType === 'text/css') {
+        data = Buffer.from(this.inlineCssFile(file));
+      } else {
+        data = this.read(file);
+      }
+
+      dataUrl = `data:${mimeType};base64,${data.toString('base64')}`;
+      this.dataUrls.set(file, dataUrl);
+    }
+
+    return dataUrl + hash;
+  }
+
+  /**
+   * Map a reference to a file under `assetsDir`. Returns `false` for
+   * references that stay as they are: fragments, `data:` URLs and other
+   * origins.
+   */
+  private resolve(
+    reference: string,
+    fromFile: string
+  ): { file: string; hash: string } | false {
+    let ref = reference.trim();
+    if (!ref || ref.startsWith('#') || /^(data|blob|about):/i.test(ref)) {
+      return false;
+    }
+
+    const publicUrl = this.publicUrls.find((prefix) => ref.startsWith(prefix));
+    if (publicUrl) {
+      ref = `/${ref.slice(publicUrl.length)}`;
+    }
+
+    const url = new URL(ref, `file:///${fromFile}`);
+    if (url.protocol !== 'file:' || url.host) {
+      this.externalUrls.add(reference);
+      return false;
+    }
+
+    return { file: decodeURIComponent(url.pathname.slice(1)), hash: url.hash };
+  }
+
+  private read(file: string): Buffer {
+    const { assetsDir, maxAssetBytes } = this.options;
+    const filePath = path.resolve(assetsDir, file);
+
+    if (
+      path.relative(assetsDir, filePath).startsWith('..') ||
+      !fs.existsSync(filePath)
+    ) {
+      const from = this.stack.at(-1) ?? 'the widget HTML';
+      throw new InlineError(
+        `${file} (referenced from ${from}) not found in ${assetsDir}`
+      );
+    }
+
+    const data = fs.readFileSync(filePath);
+    if (maxAssetBytes && data.length > maxAssetBytes) {
+      throw new InlineError(
+        `${file} is ${data.length} bytes, over the ${maxAssetBytes} byte per-asset budget`
+      );
+    }
+
+    this.assets.set(file, data.length);
+    return data;
+  }
+
+  private withCycleCheck<T>(file: string, fn: () => T): T {
+    if (this.stack.includes(file)) {
+      throw new InlineError(
+        `Circular import ${[...this.stack, file].join(' -> ')} can't be inlined`
+      );
+    }
+    this.stack.push(file);
+    try {
+      return fn();
+    } finally {
+      this.stack.pop();
+    }
+  }
+}
+
+/**
+ * Turn built widget HTML into a self-contained document with every script,
+ * chunk, stylesheet, font and image embedded as `data:` URLs, for hosts whose
+ * sandbox can't load them from the server. Throws an {@link InlineError} if
+ * a referenced file is missing or a size budget is exceeded.
+ */
+export async function inlineWidgetHtml(
+  html: string,
+  options: InlineOptions
+): Promise<InlineResult> {
+  await init();
+  return new Inliner(options).inline(html);
+}
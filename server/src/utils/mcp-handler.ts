@@ -0,0 +1,492 @@
+import type { Request, Response } from 'express';
+import { v4 as uuidv4 } from 'uuid';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import {
+  getUiCapability,
+  RESOURCE_MIME_TYPE,
+} from '@modelcontextprotocol/ext-apps/server';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import {
+  isInitializeRequest,
+  type ClientCapabilities,
+  type InitializeRequest,
+  type RequestId,
+} from '@modelcontextprotocol/sdk/types.js';
+import type { Logger } from 'pino';
+import { getClaims } from './auth.js';
+import type { EventStore } from './event-store.js';
+import type { SessionData, SessionManager } from './session.js';
+import { restoreInitializedState } from './session-restore.js';
+import { traceTransport } from './tracing.js';
+
+export type McpClientCapabilities = ClientCapabilities & {
+  extensions?: Record<string, unknown>;
+};
+
+/**
+ * Whether the client renders MCP Apps widgets. Unknown capabilities count
+ * as no UI, so app-only tools stay hidden and text fallbacks are used.
+ */
+export function canRenderUi(
+  clientCapabilities: McpClientCapabilities | undefined
+): boolean {
+  return Boolean(
+    getUiCapability(clientCapabilities)?.mimeTypes?.includes(RESOURCE_MIME_TYPE)
+  );
+}
+
+export interface SessionLimits {
+  /** Open sessions allowed across all clients, 0 for no limit */
+  maxSessions: number;
+  /** Open sessions allowed per client identity, 0 for no limit */
+  maxSessionsPerClient: number;
+}
+
+/** Retry hint for clients turned away by a session limit */
+const SESSION_RETRY_AFTER_SECONDS = 60;
+
+/**
+ * Thrown when opening or restoring a session would exceed a session limit
+ */
+class SessionLimitError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SessionLimitError';
+  }
+}
+
+export interface McpHandlerOptions {
+  logger: Logger;
+  sessionManager: SessionManager;
+  eventStore: EventStore;
+  /** Persisted sessions older than this (in milliseconds) are not restored */
+  sessionMaxAge: number;
+  /**
+   * Serve every request with a throwaway server and transport instead of
+   * sessions, so any replica can answer any request
+   */
+  stateless?: boolean;
+  sessionLimits?: SessionLimits;
+  /**
+   * Build the MCP server for a new or restored session, or for a single
+   * request in stateless mode (no session ID). Stateless requests other
+   * than `initialize` get the capabilities carried by their
+   * `Mcp-Session-Id`, or undefined when it has none. `identity` is the
+   * client behind the session or request (token subject or IP address).
+   */
+  createServer(
+    sessionId: string | undefined,
+    clientCapabilities: McpClientCapabilities | undefined,
+    identity: string | undefined
+  ): Promise<McpServer>;
+}
+
+/**
+ * Stateless `Mcp-Session-Id`: a random ID followed by the client's
+ * capabilities, which clients echo on every request so any replica knows
+ * what the host supports without keeping sessions
+ */
+function encodeCapabilityToken(capabilities: McpClientCapabilities): string {
+  const encoded = Buffer.from(JSON.stringify(capabilities)).toString(
+    'base64url'
+  );
+  return `${uuidv4()}.${encoded}`;
+}
+
+function decodeCapabilityToken(
+  token: string | undefined
+): McpClientCapabilities | undefined {
+  const encoded = token?.split('.')[1];
+
+  if (!encoded) {
+    return undefined;
+  }
+
+  try {
+    const capabilities: unknown = JSON.parse(
+      Buffer.from(encoded, 'base64url').toString('utf-8')
+    );
+    return typeof capabilities === 'object' &&
+      capabilities !== null &&
+      !Array.isArray(capabilities)
+      ? (capabilities as McpClientCapabilities)
+      : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Identify the client behind a request: the verified token subject or
+ * client ID when auth is enabled, otherwise the IP address
+ */
+function clientIdentity(req: Request): string {
+  return sessionOwner(req) ?? req.ip ?? 'unknown';
+}
+
+/**
+ * The verified token subject or client ID a session is bound to, undefined
+ * when auth is disabled
+ */
+function sessionOwner(req: Request): string | undefined {
+  return getClaims(req.auth)?.sub ?? req.auth?.clientId;
+}
+
+/**
+ * Create the `/mcp` request handler: initializes new sessions, routes
+ * requests to existing ones and restores sessions persisted in the event
+ * store (e.g. after a restart) so clients can resume with `Last-Event-ID`
+ */
+export function createMcpHandler({
+  logger,
+  sessionManager,
+  eventStore,
+  sessionMaxAge,
+  stateless = false,
+  sessionLimits = { maxSessions: 0, maxSessionsPerClient: 0 },
+  createServer,
+}: McpHandlerOptions) {
+  // Restores in progress, so concurrent requests for one persisted session
+  // share a single server and transport
+  const restoring = new Map<string, Promise<SessionData | undefined>>();
+  // Sessions being initialized or restored count against the limits until
+  // `sessionManager.create()`, so concurrent requests can't overshoot them
+  const pending = { total: 0, byIdentity: new Map<string, number>() };
+
+  // Expired and client-closed sessions can no longer be resumed; sessions
+  // closed by a shutdown stay in the store so they survive a restart
+  sessionManager.on('lifecycle', (event) => {
+    if (event.type === 'created' || event.reason === 'shutdown') {
+      return;
+    }
+
+    eventStore.deleteSession(event.sessionId).catch((err) => {
+      logger.error(
+        { err, sessionId: event.sessionId },
+        'Failed to delete session from event store'
+      );
+    });
+  });
+
+  async function connectSession(
+    sessionId: string,
+    clientCapabilities: McpClientCapabilities,
+    identity: string | undefined,
+    onInitialized?: (
+      server: McpServer,
+      transport: StreamableHTTPServerTransport
+    ) => Promise<void>
+  ) {
+    const server = await createServer(sessionId, clientCapabilities, identity);
+    const transport: StreamableHTTPServerTransport =
+      new StreamableHTTPServerTransport({
+        sessionIdGenerator: () => sessionId,
+        eventStore: eventStore.forSession(sessionId),
+        onsessioninitialized: () => onInitialized?.(server, transport),
+      });
+
+    transport.onclose = () => {
+      logger.info({ sessionId }, 'Transport closed');
+      sessionManager.delete(sessionId);
+    };
+
+    await server.connect(transport);
+    traceTransport(transport);
+
+    return { server, transport };
+  }
+
+  /**
+   * Reserve a slot for one more session from `identity`, or throw a
+   * {@link SessionLimitError} when it would exceed a session limit. Call
+   * the returned function once the session is created or fails to open;
+   * calling it again does nothing.
+   */
+  function reserveSession(identity: string | undefined): () => void {
+    const { maxSessions, maxSessionsPerClient } = sessionLimits;
+    const total = sessionManager.count() + pending.total;
+    let message: string | undefined;
+
+    if (maxSessions > 0 && total >= maxSessions) {
+      message = `Too many sessions: the server allows ${maxSessions} concurrent sessions`;
+    } else if (
+      maxSessionsPerClient > 0 &&
+      identity !== undefined &&
+      sessionManager.count(identity) +
+        (pending.byIdentity.get(identity) ?? 0) >=
+        maxSessionsPerClient
+    ) {
+      message = `Too many sessions: each client may open ${maxSessionsPerClient} concurrent sessions`;
+    }
+
+    if (message) {
+      logger.warn(
+        { identity, sessionCount: total, ...sessionLimits },
+        'Session rejected by limit'
+      );
+      throw new SessionLimitError(message);
+    }
+
+    pending.total++;
+    if (identity !== undefined) {
+      pending.byIdentity.set(
+        identity,
+        (pending.byIdentity.get(identity) ?? 0) + 1
+      );
+    }
+
+    let released = false;
+    return () => {
+      if (released) {
+        return;
+      }
+      released = true;
+      pending.total--;
+      if (identity !== undefined) {
+        const count = (pending.byIdentity.get(identity) ?? 1) - 1;
+        if (count > 0) {
+          pending.byIdentity.set(identity, count);
+        } else {
+          pending.byIdentity.delete(identity);
+        }
+      }
+    };
+  }
+
+  async function initializeSession(req: Request, res: Response) {
+    const { params: initializeParams } = req.body as {
+      params: InitializeRequest['params'];
+    };
+    const identity = clientIdentity(req);
+    const owner = sessionOwner(req);
+    const release = reserveSession(identity);
+
+    const sessionId = uuidv4();
+
+    logger.info({ sessionId, identity }, 'Initializing new session');
+
+    try {
+      const { transport } = await connectSession(
+        sessionId,
+        initializeParams.capabilities as McpClientCapabilities,
+        identity,
+        async (server, transport) => {
+          logger.info({ sessionId }, 'Session initialized');
+          release();
+          sessionManager.create(sessionId, server, transport, {
+            identity,
+            owner,
+          });
+          await eventStore.saveSession({
+            sessionId,
+            createdAt: new Date().toISOString(),
+            identity,
+            owner,
+            initializeParams,
+          });
+        }
+      );
+
+      await transport.handleRequest(req, res, req.body);
+    } finally {
+      release();
+    }
+  }
+
+  /**
+   * Restore a session persisted in the event store, once per session ID
+   * however many requests for it arrive at the same time
+   */
+  function restoreSession(sessionId: string): Promise<SessionData | undefined> {
+    let restore = restoring.get(sessionId);
+
+    if (!restore) {
+      restore = loadSession(sessionId).finally(() => {
+        restoring.delete(sessionId);
+      });
+      restoring.set(sessionId, restore);
+    }
+
+    return restore;
+  }
+
+  /**
+   * Rebuild a persisted session's server and transport. Only the
+   * `initialize` handshake and stream events are persisted: state tools
+   * keep per session (like echo history) starts out empty.
+   */
+  async function loadSession(
+    sessionId: string
+  ): Promise<SessionData | undefined> {
+    const record = await eventStore.getSession(sessionId);
+
+    if (!record) {
+      return undefined;
+    }
+
+    const createdAt = new Date(record.createdAt);
+    if (Date.now() - createdAt.getTime() > sessionMaxAge) {
+      logger.info({ sessionId }, 'Persisted session too old to restore');
+      await eventStore.deleteSession(sessionId);
+      return undefined;
+    }
+
+    const release = reserveSession(record.identity);
+
+    try {
+      const { server, transport } = await connectSession(
+        sessionId,
+        record.initializeParams.capabilities as McpClientCapabilities,
+        record.identity
+      );
+      restoreInitializedState(server, transport, record);
+
+      logger.info({ sessionId }, 'Restored session from event store');
+
+      release();
+      return sessionManager.create(sessionId, server, transport, {
+        createdAt,
+        identity: record.identity,
+        owner: record.owner,
+      });
+    } finally {
+      release();
+    }
+  }
+
+  async function handleStatelessRequest(req: Request, res: Response) {
+    if (req.method !== 'POST') {
+      res.status(405).json({
+        jsonrpc: '2.0',
+        error: {
+          code: -32000,
+          message: 'Method not allowed in stateless mode',
+        },
+        id: null,
+      });
+      return;
+    }
+
+    const initializing = isInitializeRequest(req.body);
+    const clientCapabilities = initializing
+      ? (req.body.params.capabilities as McpClientCapabilities)
+      : decodeCapabilityToken(
+          req.headers['mcp-session-id'] as string | undefined
+        );
+    const server = await createServer(
+      undefined,
+      clientCapabilities,
+      clientIdentity(req)
+    );
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: undefined,
+    });
+
+    res.on('close', () => {
+      transport.close().catch((err) => {
+        logger.error({ err }, 'Error closing stateless transport');
+      });
+      server.close().catch((err) => {
+        logger.error({ err }, 'Error closing stateless server');
+      });
+    });
+
+    if (initializing && clientCapabilities) {
+      res.setHeader(
+        'mcp-session-id',
+        encodeCapabilityToken(clientCapabilities)
+      );
+    }
+
+    await server.connect(transport);
+    traceTransport(transport);
+    await transport.handleRequest(req, res, req.body);
+  }
+
+  return async (req: Request, res: Response) => {
+    const sessionId = req.headers['mcp-session-id'] as string | undefined;
+
+    logger.info(
+      { method: req.method, sessionId, ip: req.ip, stateless },
+      'MCP request'
+    );
+
+    try {
+      if (stateless) {
+        await handleStatelessRequest(req, res);
+        return;
+      }
+
+      if (
+        !sessionId &&
+        req.method === 'POST' &&
+        isInitializeRequest(req.body)
+      ) {
+        await initializeSession(req, res);
+        return;
+      }
+
+      const session = sessionId
+        ? (sessionManager.get(sessionId) ?? (await restoreSession(sessionId)))
+        : undefined;
+
+      // Answer like an unknown session so IDs can't be probed across users
+      if (sessionId && session && session.owner !== sessionOwner(req)) {
+        logger.warn(
+          { sessionId, owner: session.owner, caller: sessionOwner(req) },
+          'Session requested by another identity'
+        );
+        res.status(404).json({
+          jsonrpc: '2.0',
+          error: { code: -32001, message: 'Session not found' },
+          id: null,
+        });
+        return;
+      }
+
+      if (sessionId && session) {
+        sessionManager.touch(sessionId);
+        await session.transport.handleRequest(req, res, req.body);
+        return;
+      }
+
+      logger.warn({ sessionId, method: req.method }, 'Invalid MCP request');
+      res.status(400).json({
+        jsonrpc: '2.0',
+        error: {
+          code: -32000,
+          message: 'Bad Request: No valid session ID provided',
+        },
+        id: null,
+      });
+    } catch (err) {
+      if (err instanceof SessionLimitError) {
+        res
+          .status(429)
+          .set('Retry-After', String(SESSION_RETRY_AFTER_SECONDS))
+          .json({
+            jsonrpc: '2.0',
+            error: {
+              code: -32000,
+              message: err.message,
+              data: { retryAfterSeconds: SESSION_RETRY_AFTER_SECONDS },
+            },
+            id: (req.body as { id?: RequestId } | undefined)?.id ?? null,
+          });
+        return;
+      }
+
+      logger.error({ err, sessionId }, 'Error handling MCP request');
+      if (!res.headersSent) {
+        res.status(500).json({
+          jsonrpc: '2.0',
+          error: {
+            code: -32603,
+            message: 'Internal server error',
+          },
+          id: null,
+        });
+      }
+    }
+  };
+}
@@ -0,0 +1,146 @@
+import {
+  collectDefaultMetrics,
+  Counter,
+  Gauge,
+  Histogram,
+  Registry,
+} from 'prom-client';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import type { SessionManager } from './session.js';
+
+/** Where widget HTML was read from */
+export type WidgetSource = 'vite' | 'base_url' | 'assets' | 'inline_cache';
+
+const LATENCY_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5];
+
+/**
+ * Prometheus metrics for sessions, tool calls and widget resource reads
+ */
+export class Metrics {
+  readonly registry: Registry;
+  private sessionsExpired: Counter<'reason'>;
+  private toolCalls: Counter<'tool'>;
+  private toolErrors: Counter<'tool'>;
+  private toolDuration: Histogram<'tool'>;
+  private widgetReadDuration: Histogram<'widget' | 'source'>;
+  private inlineCacheHits: Counter<'widget'>;
+
+  constructor({ defaultMetrics = true } = {}) {
+    this.registry = new Registry();
+
+    if (defaultMetrics) {
+      collectDefaultMetrics({ register: this.registry });
+    }
+
+    this.sessionsExpired = new Counter({
+      name: 'mcp_sessions_expired_total',
+      help: 'Sessions closed by idle or max-age expiry',
+      labelNames: ['reason'],
+      registers: [this.registry],
+    });
+
+    this.toolCalls = new Counter({
+      name: 'mcp_tool_calls_total',
+      help: 'Tool calls received',
+      labelNames: ['tool'],
+      registers: [this.registry],
+    });
+
+    this.toolErrors = new Counter({
+      name: 'mcp_tool_errors_total',
+      help: 'Tool calls that returned an isError result',
+      labelNames: ['tool'],
+      registers: [this.registry],
+    });
+
+    this.toolDuration = new Histogram({
+      name: 'mcp_tool_call_duration_seconds',
+      help: 'Tool call latency',
+      labelNames: ['tool'],
+      buckets: LATENCY_BUCKETS,
+      registers: [this.registry],
+    });
+
+    this.widgetReadDuration = new Histogram({
+      name: 'mcp_widget_read_duration_seconds',
+      help: 'Widget resource read latency by HTML source',
+      labelNames: ['widget', 'source'],
+      buckets: LATENCY_BUCKETS,
+      registers: [this.registry],
+    });
+
+    this.inlineCacheHits = new Counter({
+      name: 'mcp_widget_inline_cache_hits_total',
+      help: 'Widget resource reads served from the pre-inlined HTML cache',
+      labelNames: ['widget'],
+      registers: [this.registry],
+    });
+  }
+
+  /**
+   * Report active sessions and count expiries from lifecycle events
+   */
+  trackSessions(sessionManager: SessionManager): void {
+    new Gauge({
+      name: 'mcp_sessions_active',
+      help: 'Open MCP sessions',
+      registers: [this.registry],
+      collect() {
+        this.set(sessionManager.count());
+      },
+    });
+
+    sessionManager.on('lifecycle', (event) => {
+      if (event.type === 'expired' && event.reason) {
+        this.sessionsExpired.inc({ reason: event.reason });
+      }
+    });
+  }
+
+  /**
+   * Time a tool call, counting `isError` results and thrown errors as errors
+   */
+  async observeToolCall(
+    tool: string,
+    call: () => Promise<CallToolResult>
+  ): Promise<CallToolResult> {
+    const end = this.toolDuration.startTimer({ tool });
+    this.toolCalls.inc({ tool });
+
+    try {
+      const result = await call();
+      if (result.isError) {
+        this.toolErrors.inc({ tool });
+      }
+      return result;
+    } catch (err) {
+      this.toolErrors.inc({ tool });
+      throw err;
+    } finally {
+      end();
+    }
+  }
+
+  /**
+   * Time a widget HTML read, labelled with the source it was served from,
+   * or `error` when the read throws
+   */
+  async observeWidgetRead<T extends { source: WidgetSource }>(
+    widget: string,
+    read: () => Promise<T>
+  ): Promise<T> {
+    const end = this.widgetReadDuration.startTimer({ widget });
+    let source: WidgetSource | 'error' = 'error';
+
+    try {
+      const result = await read();
+      source = result.source;
+      if (result.source === 'inline_cache') {
+        this.inlineCacheHits.inc({ widget });
+      }
+      return result;
+    } finally {
+      end({ source });
+    }
+  }
+}
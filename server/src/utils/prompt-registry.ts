@@ -0,0 +1,208 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { pathToFileURL } from 'node:url';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { GetPromptResult } from '@modelcontextprotocol/sdk/types.js';
+import type { Logger } from 'pino';
+import type { z } from 'zod';
+import {
+  isModelVisible,
+  isModuleFile,
+  type ToolDefinition,
+} from './tool-registry.js';
+
+/**
+ * Declarative prompt definition, see {@link definePrompt}
+ */
+export interface PromptDefinition<TArgs extends z.ZodObject = z.ZodObject> {
+  name: string;
+  title?: string;
+  description: string;
+  /** Prompt arguments arrive as strings, so use `z.string()` or `z.coerce` */
+  argsSchema: TArgs;
+  /** Message text, `{{name}}` is replaced with the `name` argument */
+  template: string;
+  /**
+   * Tool the model is asked to call with the prompt's arguments, so a UI tool
+   * opens its widget straight from the prompt
+   */
+  tool?: string;
+  /** Map prompt arguments to the tool's input, defaults to passing them as-is */
+  toolArguments?(args: z.infer<TArgs>): Record<string, unknown>;
+}
+
+/**
+ * Define a prompt. Prompt modules in `src/prompts/` default-export the result.
+ */
+export function definePrompt<TArgs extends z.ZodObject>(
+  definition: PromptDefinition<TArgs>
+): PromptDefinition<TArgs> {
+  return definition;
+}
+
+const PLACEHOLDER = /\{\{\s*(\w+)\s*\}\}/g;
+
+function isPromptDefinition(value: unknown): value is PromptDefinition {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    'name' in value &&
+    typeof value.name === 'string' &&
+    'argsSchema' in value &&
+    'template' in value &&
+    typeof value.template === 'string'
+  );
+}
+
+/**
+ * Template placeholders that don't name an argument
+ */
+function unknownPlaceholders(prompt: PromptDefinition): string[] {
+  return [...prompt.template.matchAll(PLACEHOLDER)]
+    .map(([, name]) => name)
+    .filter((name) => !(name in prompt.argsSchema.shape));
+}
+
+/**
+ * Discover prompt modules in a directory.
+ * Each module must default-export a {@link definePrompt} result.
+ */
+export async function loadPrompts(
+  promptsDir: string,
+  logger: Logger
+): Promise<PromptDefinition[]> {
+  if (!fs.existsSync(promptsDir)) {
+    logger.warn({ promptsDir }, 'Prompts directory not found');
+    return [];
+  }
+
+  const files = fs.readdirSync(promptsDir).filter(isModuleFile).sort();
+  const prompts: PromptDefinition[] = [];
+
+  for (const file of files) {
+    const modulePath = path.join(promptsDir, file);
+    const mod = (await import(pathToFileURL(modulePath).href)) as {
+      default?: unknown;
+    };
+
+    if (!isPromptDefinition(mod.default)) {
+      logger.warn(
+        { modulePath },
+        'Skipping prompt module without a definePrompt() default export'
+      );
+      continue;
+    }
+
+    const prompt = mod.default;
+    if (prompts.some((existing) => existing.name === prompt.name)) {
+      throw new Error(
+        `Duplicate prompt name "${prompt.name}" in ${modulePath}`
+      );
+    }
+
+    const unknown = unknownPlaceholders(prompt);
+    if (unknown.length > 0) {
+      throw new Error(
+        `Prompt "${prompt.name}" in ${modulePath} uses unknown template arguments: ${unknown.join(', ')}`
+      );
+    }
+
+    prompts.push(prompt);
+  }
+
+  logger.info(
+    { promptsDir, prompts: prompts.map((prompt) => prompt.name) },
+    'Discovered prompts'
+  );
+
+  return prompts;
+}
+
+/**
+ * Render a prompt's template with validated arguments. When the prompt
+ * references `tool`, the message also asks the model to call it.
+ */
+export function renderPrompt(
+  prompt: PromptDefinition,
+  args: Record<string, unknown>,
+  tool?: ToolDefinition
+): GetPromptResult {
+  let text = prompt.template.replace(PLACEHOLDER, (_match, name: string) =>
+    args[name] === undefined ? '' : String(args[name])
+  );
+
+  if (tool) {
+    const toolArgs = prompt.toolArguments?.(args) ?? args;
+    const validated = tool.inputSchema.safeParse(toolArgs);
+
+    if (!validated.success) {
+      throw new Error(
+        `Prompt "${prompt.name}" arguments are not valid input for tool "${tool.name}": ${validated.error.issues.map((e) => e.message).join(', ')}`
+      );
+    }
+
+    text += `\n\nCall the \`${tool.name}\` tool with ${JSON.stringify(validated.data)}.`;
+  }
+
+  return {
+    description: prompt.description,
+    messages: [{ role: 'user', content: { type: 'text', text } }],
+  };
+}
+
+interface RegisterPromptsOptions {
+  sessionId?: string;
+  logger: Logger;
+  /** Tools registered on the same server, for prompts that reference one */
+  tools: ToolDefinition[];
+}
+
+/**
+ * Register prompts on a session's MCP server
+ */
+export function registerPrompts(
+  server: McpServer,
+  prompts: PromptDefinition[],
+  { sessionId, logger, tools }: RegisterPromptsOptions
+): void {
+  for (const prompt of prompts) {
+    let tool = tools.find(({ name }) => name === prompt.tool);
+
+    if (prompt.tool && !tool) {
+      logger.warn(
+        { promptName: prompt.name, toolName: prompt.tool },
+        'Prompt references an unknown tool, registering without it'
+      );
+    } else if (tool && !isModelVisible(tool)) {
+      logger.warn(
+        { promptName: prompt.name, toolName: prompt.tool },
+        'Prompt references an app-only tool, registering without it'
+      );
+      tool = undefined;
+    }
+
+    server.registerPrompt(
+      prompt.name,
+      {
+        title: prompt.title,
+        description: prompt.description,
+        argsSchema: prompt.argsSchema.shape,
+      },
+      (args, extra) => {
+        const promptLogger = logger.child({
+          sessionId: extra.sessionId ?? sessionId,
+          promptName: prompt.name,
+        });
+
+        promptLogger.info({ args }, 'Prompt requested');
+
+        try {
+          return renderPrompt(prompt, args, tool);
+        } catch (err) {
+          promptLogger.error({ err }, 'Prompt rendering failed');
+          throw err;
+        }
+      }
+    );
+  }
+}
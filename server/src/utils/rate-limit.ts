@@ -0,0 +1,129 @@
+import type { Logger } from 'pino';
+
+const WINDOW_MS = 60_000;
+
+export interface ToolCallLimits {
+  /** Tool calls allowed per session (or client) in any 60 second window, 0 for no limit */
+  toolCallsPerMinute: number;
+  /** Tool calls allowed to run at once across all sessions, 0 for no limit */
+  maxConcurrentToolCalls: number;
+}
+
+export type ToolCallPermit =
+  | { allowed: true; release: () => void }
+  | {
+      allowed: false;
+      reason: 'rate' | 'concurrency';
+      message: string;
+      retryAfterMs: number;
+    };
+
+/**
+ * Enforces per-session tool call rates (sliding one-minute window) and a
+ * global cap on in-flight tool calls
+ */
+export class ToolCallLimiter {
+  private calls: Map<string, number[]>;
+  private inFlight = 0;
+  private lastSweep = Date.now();
+  private logger: Logger;
+  private limits: ToolCallLimits;
+
+  constructor(logger: Logger, limits: ToolCallLimits) {
+    this.calls = new Map();
+    this.logger = logger;
+    this.limits = limits;
+  }
+
+  /**
+   * Reserve a slot for a tool call. `key` identifies the caller, usually the
+   * session ID; calls without one are only subject to the concurrency cap.
+   * Allowed permits must be released when the call finishes.
+   */
+  acquire(key: string | undefined, toolName: string): ToolCallPermit {
+    const now = Date.now();
+    this.sweep(now);
+
+    const { toolCallsPerMinute, maxConcurrentToolCalls } = this.limits;
+
+    const recent = key
+      ? (this.calls.get(key) ?? []).filter((time) => time > now - WINDOW_MS)
+      : [];
+
+    if (key && toolCallsPerMinute > 0 && recent.length >= toolCallsPerMinute) {
+      this.calls.set(key, recent);
+      return this.reject(key, toolName, {
+        reason: 'rate',
+        message: `Rate limit exceeded: at most ${toolCallsPerMinute} tool calls per minute`,
+        retryAfterMs: recent[0] + WINDOW_MS - now,
+      });
+    }
+
+    if (maxConcurrentToolCalls > 0 && this.inFlight >= maxConcurrentToolCalls) {
+      return this.reject(key, toolName, {
+        reason: 'concurrency',
+        message: `Server busy: ${maxConcurrentToolCalls} tool calls already in progress`,
+        retryAfterMs: 1000,
+      });
+    }
+
+    if (key && toolCallsPerMinute > 0) {
+      recent.push(now);
+      this.calls.set(key, recent);
+    }
+
+    this.inFlight++;
+    let released = false;
+
+    return {
+      allowed: true,
+      release: () => {
+        if (!released) {
+          released = true;
+          this.inFlight--;
+        }
+      },
+    };
+  }
+
+  /**
+   * Number of tool calls currently running
+   */
+  activeCalls(): number {
+    return this.inFlight;
+  }
+
+  private reject(
+    key: string | undefined,
+    toolName: string,
+    rejection: Omit<Extract<ToolCallPermit, { allowed: false }>, 'allowed'>
+  ): ToolCallPermit {
+    this.logger.warn(
+      {
+        key,
+        toolName,
+        reason: rejection.reason,
+        retryAfterMs: rejection.retryAfterMs,
+      },
+      'Tool call rejected by rate limit'
+    );
+
+    return { allowed: false, ...rejection };
+  }
+
+  /**
+   * Drop call history for callers idle longer than the window
+   */
+  private sweep(now: number) {
+    if (now - this.lastSweep < WINDOW_MS) {
+      return;
+    }
+
+    this.lastSweep = now;
+    for (const [key, times] of this.calls) {
+      if (times.every((time) => time <= now - WINDOW_MS)) {
+        this.calls.delete(key);
+      }
+    }
+  }
+}
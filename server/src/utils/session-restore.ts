@@ -0,0 +1,63 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import type {
+  ClientCapabilities,
+  Implementation,
+} from '@modelcontextprotocol/sdk/types.js';
+import type { SessionRecord } from './event-store.js';
+
+/**
+ * SDK release whose private fields `restoreInitializedState()` writes. The
+ * dependency is pinned to it, and `tests/session-restore.test.ts` fails
+ * when the installed SDK differs so an upgrade re-checks the fields.
+ */
+export const RESTORE_SDK_VERSION = '1.29.0';
+
+interface TransportInternals {
+  _webStandardTransport?: { sessionId?: string; _initialized?: boolean };
+}
+
+interface ServerInternals {
+  _clientCapabilities?: ClientCapabilities;
+  _clientVersion?: Implementation;
+}
+
+/**
+ * Mark a new transport and server as initialized for a session restored
+ * from the event store. The SDK only sets this state while handling an
+ * `initialize` request and has no public API to restore it, so this is the
+ * one place that writes SDK internals. Throws instead of half-restoring
+ * when they no longer look like {@link RESTORE_SDK_VERSION}.
+ */
+export function restoreInitializedState(
+  server: McpServer,
+  transport: StreamableHTTPServerTransport,
+  record: SessionRecord
+): void {
+  const webTransport = (transport as unknown as TransportInternals)
+    ._webStandardTransport;
+
+  if (typeof webTransport?._initialized !== 'boolean') {
+    throw new Error(
+      `Can't restore session: MCP SDK transport internals differ from ${RESTORE_SDK_VERSION}`
+    );
+  }
+
+  webTransport.sessionId = record.sessionId;
+  webTransport._initialized = true;
+
+  const lowLevelServer = server.server as unknown as ServerInternals;
+  lowLevelServer._clientCapabilities = record.initializeParams.capabilities;
+  lowLevelServer._clientVersion = record.initializeParams.clientInfo;
+
+  if (
+    transport.sessionId !== record.sessionId ||
+    server.server.getClientCapabilities() !==
+      record.initializeParams.capabilities ||
+    server.server.getClientVersion() !== record.initializeParams.clientInfo
+  ) {
+    throw new Error(
+      `Can't restore session: MCP SDK server internals differ from ${RESTORE_SDK_VERSION}`
+    );
+  }
+}
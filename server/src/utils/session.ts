@@ -1,3 +1,4 @@
+import { EventEmitter } from 'node:events';
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import type { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
 import type { Logger } from 'pino';
@@ -9,40 +10,88 @@ export interface SessionData {
   server: McpServer;
   transport: StreamableHTTPServerTransport;
   createdAt: Date;
+  lastActivityAt: Date;
+  /** Client that opened the session (token subject or IP address) */
+  identity?: string;
+  /**
+   * Token subject (or client ID) that opened the session when auth is
+   * enabled; requests for the session must come from the same one
+   */
+  owner?: string;
+}
+
+/**
+ * Session expiry limits (in milliseconds)
+ */
+export interface SessionExpiryOptions {
+  /** Expire sessions with no `/mcp` request for this long */
+  idleTimeout: number;
+  /** Expire sessions this long after creation, even when active */
+  maxAge: number;
+}
+
+export type SessionCloseReason =
+  | 'idle'
+  | 'max-age'
+  | 'transport-closed'
+  | 'shutdown';
+
+/**
+ * Structured session lifecycle event
+ */
+export interface SessionLifecycleEvent {
+  type: 'created' | 'expired' | 'closed';
+  sessionId: string;
+  reason?: SessionCloseReason;
+  ageMs: number;
+  idleMs: number;
 }
 
 /**
  * Manages MCP server sessions with cleanup capabilities
  */
-export class SessionManager {
+export class SessionManager extends EventEmitter<{
+  lifecycle: [SessionLifecycleEvent];
+}> {
   private sessions: Map<string, SessionData>;
   private logger: Logger;
 
   constructor(logger: Logger) {
+    super();
     this.sessions = new Map();
     this.logger = logger;
   }
 
   /**
-   * Create a new session
+   * Create a new session. Restored sessions pass their original creation
+   * time so `maxAge` still applies.
    */
   create(
     sessionId: string,
     server: McpServer,
-    transport: StreamableHTTPServerTransport
+    transport: StreamableHTTPServerTransport,
+    {
+      createdAt = new Date(),
+      identity,
+      owner,
+    }: { createdAt?: Date; identity?: string; owner?: string } = {}
   ): SessionData {
     const sessionData: SessionData = {
       server,
       transport,
-      createdAt: new Date(),
+      createdAt,
+      lastActivityAt: new Date(),
+      identity,
+      owner,
     };
 
     this.sessions.set(sessionId, sessionData);
 
     this.logger.info(
-      { sessionId, sessionCount: this.sessions.size },
+      { sessionId, identity, sessionCount: this.sessions.size },
       'Session created'
     );
+    this.emitLifecycle('created', sessionId, sessionData);
 
     return sessionData;
   }
@@ -55,54 +104,90 @@ export class SessionManager {
   }
 
   /**
-   * Delete a session
+   * Record activity on a session, resetting its idle timer
+   */
+  touch(sessionId: string): void {
+    const session = this.sessions.get(sessionId);
+
+    if (session) {
+      session.lastActivityAt = new Date();
+    }
+  }
+
+  /**
+   * Delete a session whose transport has already closed
    */
   delete(sessionId: string): boolean {
+    const session = this.sessions.get(sessionId);
     const deleted = this.sessions.delete(sessionId);
 
-    if (deleted) {
+    if (session) {
       this.logger.info(
         { sessionId, sessionCount: this.sessions.size },
         'Session deleted'
       );
+      this.emitLifecycle('closed', sessionId, session, 'transport-closed');
     }
 
     return deleted;
   }
 
   /**
-   * Cleanup stale sessions older than maxAge (in milliseconds)
+   * Expire sessions that have been idle longer than `idleTimeout` or
+   * exist longer than `maxAge`, closing their transports and servers
    */
-  cleanup(maxAge: number): number {
+  async cleanup({
+    idleTimeout,
+    maxAge,
+  }: SessionExpiryOptions): Promise<number> {
     const now = Date.now();
-    let cleaned = 0;
+    const expired: Array<[string, SessionData, SessionCloseReason]> = [];
 
     for (const [sessionId, session] of this.sessions.entries()) {
       const age = now - session.createdAt.getTime();
+      const idle = now - session.lastActivityAt.getTime();
 
       if (age > maxAge) {
-        this.sessions.delete(sessionId);
-        cleaned++;
-
-        this.logger.info({ sessionId, age }, 'Cleaned up stale session');
+        expired.push([sessionId, session, 'max-age']);
+      } else if (idle > idleTimeout) {
+        expired.push([sessionId, session, 'idle']);
       }
     }
 
-    if (cleaned > 0) {
+    for (const [sessionId, session, reason] of expired) {
+      // Remove first so the transport's onclose does not report it again
+      this.sessions.delete(sessionId);
+      this.emitLifecycle('expired', sessionId, session, reason);
+      await this.teardown(sessionId, session);
+
+      this.logger.info({ sessionId, reason }, 'Cleaned up stale session');
+    }
+
+    if (expired.length > 0) {
       this.logger.info(
-        { cleaned, remaining: this.sessions.size },
+        { cleaned: expired.length, remaining: this.sessions.size },
         'Session cleanup complete'
       );
     }
 
-    return cleaned;
+    return expired.length;
   }
 
   /**
-   * Get current session count
+   * Get current session count, optionally only for one client identity
    */
-  count(): number {
-    return this.sessions.size;
+  count(identity?: string): number {
+    if (identity === undefined) {
+      return this.sessions.size;
+    }
+
+    let count = 0;
+    for (const session of this.sessions.values()) {
+      if (session.identity === identity) {
+        count++;
+      }
+    }
+    return count;
   }
 
   /**
@@ -111,16 +196,52 @@ export class SessionManager {
   async closeAll(): Promise<void> {
     this.logger.info({ count: this.sessions.size }, 'Closing all sessions');
 
-    for (const [sessionId, session] of this.sessions.entries()) {
-      try {
-        await session.transport.close();
-        this.logger.debug({ sessionId }, 'Transport closed');
-      } catch (err) {
-        this.logger.error({ err, sessionId }, 'Error closing transport');
-      }
+    const sessions = [...this.sessions.entries()];
+    this.sessions.clear();
+
+    for (const [sessionId, session] of sessions) {
+      this.emitLifecycle('closed', sessionId, session, 'shutdown');
+      await this.teardown(sessionId, session);
     }
 
-    this.sessions.clear();
     this.logger.info('All sessions closed');
   }
+
+  /**
+   * Close a session's transport and server, releasing its event store
+   */
+  private async teardown(sessionId: string, session: SessionData) {
+    try {
+      await session.transport.close();
+      this.logger.debug({ sessionId }, 'Transport closed');
+    } catch (err) {
+      this.logger.error({ err, sessionId }, 'Error closing transport');
+    }
+
+    try {
+      await session.server.close();
+      this.logger.debug({ sessionId }, 'Server closed');
+    } catch (err) {
+      this.logger.error({ err, sessionId }, 'Error closing server');
+    }
+  }
+
+  private emitLifecycle(
+    type: SessionLifecycleEvent['type'],
+    sessionId: string,
+    session: SessionData,
+    reason?: SessionCloseReason
+  ) {
+    const now = Date.now();
+    const event: SessionLifecycleEvent = {
+      type,
+      sessionId,
+      reason,
+      ageMs: now - session.createdAt.getTime(),
+      idleMs: now - session.lastActivityAt.getTime(),
+    };
+
+    this.logger.info({ event }, 'Session lifecycle event');
+    this.emit('lifecycle', event);
+  }
 }
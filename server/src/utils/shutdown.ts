@@ -0,0 +1,189 @@
+import type { Server } from 'node:http';
+import type { RequestHandler } from 'express';
+import { isJSONRPCRequest } from '@modelcontextprotocol/sdk/types.js';
+import type { Logger } from 'pino';
+import type { SessionManager } from './session.js';
+
+export type ShutdownPhase = 'running' | 'draining' | 'closing' | 'stopped';
+
+/**
+ * Shutdown progress reported on `/health`
+ */
+export interface ShutdownStatus {
+  phase: ShutdownPhase;
+  /** `/mcp` POST requests still being answered */
+  inFlightRequests: number;
+  startedAt?: string;
+}
+
+export interface ShutdownOptions {
+  /** How long in-flight requests get to finish, in milliseconds */
+  timeout: number;
+  httpServer: Server;
+  sessionManager: SessionManager;
+  /** Release what's left (event store, tracing) once HTTP is closed */
+  cleanup?: () => Promise<void>;
+}
+
+/** How often drain progress is logged */
+const PROGRESS_INTERVAL_MS = 1000;
+
+/**
+ * Whether a POST body starts new work. Responses and notifications still go
+ * through while draining so in-flight requests waiting on the client (e.g.
+ * elicitation) can finish.
+ */
+function startsWork(body: unknown): boolean {
+  const messages: unknown[] = Array.isArray(body) ? body : [body];
+  return messages.some(isJSONRPCRequest);
+}
+
+/**
+ * Drains `/mcp` before the process exits: new work is refused with 503,
+ * in-flight requests get `timeout` to finish, then sessions and the HTTP
+ * server are closed
+ */
+export class GracefulShutdown {
+  private logger: Logger;
+  private phase: ShutdownPhase;
+  private inFlight: number;
+  private startedAt?: Date;
+  private onIdle?: () => void;
+
+  constructor(logger: Logger) {
+    this.logger = logger;
+    this.phase = 'running';
+    this.inFlight = 0;
+  }
+
+  /**
+   * `/mcp` middleware: counts in-flight POST requests and, once draining,
+   * rejects new sessions, requests and streams with 503
+   */
+  middleware(): RequestHandler {
+    return (req, res, next) => {
+      const rejected =
+        this.phase !== 'running' &&
+        (req.method === 'GET' ||
+          (req.method === 'POST' && startsWork(req.body)));
+
+      if (rejected) {
+        this.logger.info(
+          { method: req.method, sessionId: req.headers['mcp-session-id'] },
+          'Request rejected while shutting down'
+        );
+        res
+          .status(503)
+          .set('Connection', 'close')
+          .json({
+            jsonrpc: '2.0',
+            error: { code: -32000, message: 'Server is shutting down' },
+            id: null,
+          });
+        return;
+      }
+
+      // Standalone SSE streams stay open until their session closes, so only
+      // POST requests are waited for
+      if (req.method === 'POST') {
+        this.inFlight++;
+        res.on('close', () => {
+          this.inFlight--;
+          if (this.inFlight === 0) {
+            this.onIdle?.();
+          }
+        });
+      }
+
+      next();
+    };
+  }
+
+  status(): ShutdownStatus {
+    return {
+      phase: this.phase,
+      inFlightRequests: this.inFlight,
+      startedAt: this.startedAt?.toISOString(),
+    };
+  }
+
+  /**
+   * Whether {@link shutdown} has started
+   */
+  isShuttingDown(): boolean {
+    return this.phase !== 'running';
+  }
+
+  /**
+   * Drain in-flight requests, then close sessions and the HTTP server
+   */
+  async shutdown({
+    timeout,
+    httpServer,
+    sessionManager,
+    cleanup,
+  }: ShutdownOptions): Promise<void> {
+    this.phase = 'draining';
+    this.startedAt = new Date();
+    this.logger.info(
+      { inFlightRequests: this.inFlight, timeoutMs: timeout },
+      'Draining in-flight requests'
+    );
+
+    const drained = await this.waitForIdle(timeout);
+    if (drained) {
+      this.logger.info('In-flight requests finished');
+    } else {
+      this.logger.warn(
+        { inFlightRequests: this.inFlight, timeoutMs: timeout },
+        'Shutdown timeout reached, closing in-flight requests'
+      );
+    }
+
+    this.phase = 'closing';
+    await sessionManager.closeAll();
+
+    httpServer.closeAllConnections();
+    await new Promise<void>((resolve) => httpServer.close(() => resolve()));
+    this.logger.info('HTTP server closed');
+
+    await cleanup?.();
+
+    this.phase = 'stopped';
+    this.logger.info(
+      { durationMs: Date.now() - this.startedAt.getTime() },
+      'Shutdown complete'
+    );
+  }
+
+  /**
+   * Resolve true once no requests are in flight, or false after `timeout`
+   */
+  private waitForIdle(timeout: number): Promise<boolean> {
+    if (this.inFlight === 0) {
+      return Promise.resolve(true);
+    }
+
+    return new Promise((resolve) => {
+      const deadline = Date.now() + timeout;
+      const finish = (drained: boolean) => {
+        clearInterval(progress);
+        clearTimeout(timer);
+        this.onIdle = undefined;
+        resolve(drained);
+      };
+
+      const progress = setInterval(() => {
+        this.logger.info(
+          {
+            inFlightRequests: this.inFlight,
+            remainingMs: Math.max(deadline - Date.now(), 0),
+          },
+          'Waiting for in-flight requests'
+        );
+      }, PROGRESS_INTERVAL_MS);
+      const timer = setTimeout(() => finish(false), timeout);
+      this.onIdle = () => finish(true);
+    });
+  }
+}
@@ -0,0 +1,478 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { pathToFileURL } from 'node:url';
+import { SpanStatusCode } from '@opentelemetry/api';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import type {
+  CallToolResult,
+  Progress,
+  ProgressToken,
+} from '@modelcontextprotocol/sdk/types.js';
+import type {
+  McpUiToolMeta,
+  McpUiToolVisibility,
+} from '@modelcontextprotocol/ext-apps';
+import { registerAppTool } from '@modelcontextprotocol/ext-apps/server';
+import type { Logger } from 'pino';
+import type { z } from 'zod';
+import type { WidgetDescriptor } from '../types.js';
+import {
+  elicit,
+  ElicitationUnsupportedError,
+  type ElicitationResult,
+} from './elicitation.js';
+import type { Metrics } from './metrics.js';
+import type { ToolCallLimiter } from './rate-limit.js';
+import { withSpan } from './tracing.js';
+
+/**
+ * Objects the server shares with its tools, keyed by name. Tool modules
+ * look up and check their own entries, e.g. `echoHistoryService()`.
+ */
+export type ToolServices = Readonly<Record<string, unknown>>;
+
+/**
+ * Per-call context handed to every tool handler
+ */
+export interface ToolContext {
+  /** Undefined in stateless mode */
+  sessionId?: string;
+  logger: Logger;
+  canRenderUi: boolean;
+  /** Verified bearer token when auth is enabled, claims in `extra.claims` */
+  auth?: AuthInfo;
+  services: ToolServices;
+  /** Aborted when the client cancels the call or the session closes */
+  signal: AbortSignal;
+  /** Token the client sent to ask for progress, if any */
+  progressToken?: ProgressToken;
+  /** Send `notifications/progress` for this call, a no-op without a token */
+  reportProgress(progress: Progress): Promise<void>;
+  /**
+   * Ask the user to fill in a form derived from a flat Zod object. Clients
+   * without form elicitation get an `isError` result asking the model to
+   * collect the fields instead, so tools should also accept them as input.
+   */
+  elicit<T extends z.ZodObject>(
+    message: string,
+    schema: T
+  ): Promise<ElicitationResult<z.infer<T>>>;
+}
+
+/**
+ * Value returned by a tool handler
+ */
+export interface ToolHandlerResult<TOutput = Record<string, unknown>> {
+  content: CallToolResult['content'];
+  structuredContent?: TOutput;
+}
+
+/**
+ * Declarative tool definition, see {@link defineTool}
+ */
+export interface ToolDefinition<
+  TInput extends z.ZodObject = z.ZodObject,
+  TOutput extends z.ZodObject = z.ZodObject,
+> {
+  name: string;
+  title?: string;
+  description: string;
+  inputSchema: TInput;
+  outputSchema?: TOutput;
+  /** Widget id rendered for this tool's results, e.g. `echo` for `ui://echo` */
+  widget?: string;
+  /**
+   * Who may call the tool: the `model`, widgets through `callServerTool`
+   * (`app`), or both (the default). Hosts with UI support enforce it: the
+   * server lists and runs app-only tools for them, since widget calls reach
+   * it through the host like any other `tools/call`. Hosts without UI
+   * support never get app-only tools.
+   */
+  visibility?: McpUiToolVisibility[];
+  /**
+   * Text or Markdown shown instead of the widget when the host can't render
+   * it; replaces the handler's `content` for those hosts
+   */
+  renderText?(output: z.infer<TOutput>): string;
+  handler(
+    input: z.infer<TInput>,
+    context: ToolContext
+  ): Promise<ToolHandlerResult<z.infer<TOutput>>>;
+}
+
+/**
+ * Define a tool. Tool modules in `src/tools/` default-export the result.
+ */
+export function defineTool<
+  TInput extends z.ZodObject,
+  TOutput extends z.ZodObject = z.ZodObject,
+>(
+  definition: ToolDefinition<TInput, TOutput>
+): ToolDefinition<TInput, TOutput> {
+  return definition;
+}
+
+function isToolDefinition(value: unknown): value is ToolDefinition {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    'name' in value &&
+    typeof value.name === 'string' &&
+    'inputSchema' in value &&
+    'handler' in value &&
+    typeof value.handler === 'function'
+  );
+}
+
+/**
+ * Whether the model may see and call a tool, i.e. it isn't app-only
+ */
+export function isModelVisible(tool: ToolDefinition): boolean {
+  return !tool.visibility || tool.visibility.includes('model');
+}
+
+/**
+ * Whether a directory entry is a loadable `.ts` or `.js` module
+ */
+export function isModuleFile(filename: string): boolean {
+  if (filename.endsWith('.d.ts') || filename.includes('.test.')) {
+    return false;
+  }
+  return filename.endsWith('.ts') || filename.endsWith('.js');
+}
+
+/**
+ * Discover tool modules in a directory.
+ * Each module must default-export a {@link defineTool} result.
+ */
+export async function loadTools(
+  toolsDir: string,
+  logger: Logger
+): Promise<ToolDefinition[]> {
+  if (!fs.existsSync(toolsDir)) {
+    logger.warn({ toolsDir }, 'Tools directory not found');
+    return [];
+  }
+
+  const files = fs.readdirSync(toolsDir).filter(isModuleFile).sort();
+  const tools: ToolDefinition[] = [];
+
+  for (const file of files) {
+    const modulePath = path.join(toolsDir, file);
+    const mod = (await import(pathToFileURL(modulePath).href)) as {
+      default?: unknown;
+    };
+
+    if (!isToolDefinition(mod.default)) {
+      logger.warn(
+        { modulePath },
+        'Skipping tool module without a defineTool() default export'
+      );
+      continue;
+    }
+
+    const tool = mod.default;
+    if (tools.some((existing) => existing.name === tool.name)) {
+      throw new Error(`Duplicate tool name "${tool.name}" in ${modulePath}`);
+    }
+
+    if (tool.visibility?.length === 0) {
+      throw new Error(
+        `Tool "${tool.name}" in ${modulePath} has an empty visibility list, use "model", "app" or both`
+      );
+    }
+
+    tools.push(tool);
+  }
+
+  logger.info(
+    { toolsDir, tools: tools.map((tool) => tool.name) },
+    'Discovered tools'
+  );
+
+  return tools;
+}
+
+function valueAtPath(value: unknown, issuePath: PropertyKey[]): unknown {
+  let current = value;
+  for (const key of issuePath) {
+    if (typeof current !== 'object' || current === null) {
+      return undefined;
+    }
+    current = (current as Record<PropertyKey, unknown>)[key];
+  }
+  return current;
+}
+
+/**
+ * Describe how structured content differs from the output schema,
+ * one line per issue with the received value
+ */
+function formatOutputMismatch(
+  error: z.ZodError,
+  structuredContent: unknown
+): string {
+  return error.issues
+    .map((issue) => {
+      const location = issue.path.length
+        ? issue.path.map(String).join('.')
+        : '(root)';
+      const received = valueAtPath(structuredContent, issue.path);
+      const receivedText =
+        received === undefined ? 'undefined' : JSON.stringify(received);
+      return `  - ${location}: ${issue.message} (received ${receivedText})`;
+    })
+    .join('\n');
+}
+
+function errorResult(text: string): CallToolResult {
+  return {
+    content: [{ type: 'text', text }],
+    isError: true,
+  };
+}
+
+interface RegisterToolsOptions {
+  sessionId?: string;
+  logger: Logger;
+  canRenderUi: boolean;
+  widgets: WidgetDescriptor[];
+  /** Shared limiter for tool call rates and concurrency */
+  limiter?: ToolCallLimiter;
+  /**
+   * Client behind the server (token subject or IP address), the rate limit
+   * key for calls without a session
+   */
+  clientIdentity?: string;
+  metrics?: Metrics;
+  services?: ToolServices;
+}
+
+/**
+ * Validate input, run the handler and check its output against the schema.
+ * Without `hasUi` the tool's `renderText` output replaces the handler's
+ * content.
+ */
+async function runTool(
+  tool: ToolDefinition,
+  args: Record<string, unknown>,
+  context: ToolContext,
+  hasUi: boolean
+): Promise<CallToolResult> {
+  const { logger: toolLogger, canRenderUi } = context;
+  const result = tool.inputSchema.safeParse(args);
+
+  if (!result.success) {
+    toolLogger.error({ err: result.error }, 'Validation failed');
+    return errorResult(
+      `Error: ${result.error.issues.map((e) => e.message).join(', ')}`
+    );
+  }
+
+  try {
+    const output = await tool.handler(result.data, context);
+
+    if (tool.outputSchema) {
+      const validated = tool.outputSchema.safeParse(output.structuredContent);
+
+      if (!validated.success) {
+        const mismatch = formatOutputMismatch(
+          validated.error,
+          output.structuredContent
+        );
+        toolLogger.error(
+          {
+            issues: validated.error.issues,
+            output: output.structuredContent,
+          },
+          'Output validation failed'
+        );
+        return errorResult(
+          `Error: Tool "${tool.name}" returned structured content that does not match its output schema:\n${mismatch}`
+        );
+      }
+    }
+
+    toolLogger.info(
+      { output: output.structuredContent },
+      'Tool execution successful'
+    );
+
+    const content =
+      tool.renderText && !hasUi && output.structuredContent
+        ? [
+            {
+              type: 'text' as const,
+              text: tool.renderText(output.structuredContent),
+            },
+          ]
+        : output.content;
+
+    // Structured content promised by an output schema is always
+    // returned; otherwise it only feeds the widget
+    if (tool.widget && !canRenderUi && !tool.outputSchema) {
+      return { content };
+    }
+
+    return {
+      content,
+      structuredContent: output.structuredContent,
+    };
+  } catch (err) {
+    // Cancelled requests get no response; this result only feeds logs and metrics
+    if (context.signal.aborted) {
+      toolLogger.info('Tool call cancelled');
+      return errorResult('Error: Tool call cancelled');
+    }
+
+    if (err instanceof ElicitationUnsupportedError) {
+      toolLogger.info(
+        { fields: Object.keys(err.requestedSchema.properties) },
+        'Client cannot elicit, asking the model to prompt the user'
+      );
+      return errorResult(`Error: ${err.message}`);
+    }
+
+    toolLogger.error({ err }, 'Tool execution failed');
+    return errorResult(
+      `Error: ${err instanceof Error ? err.message : String(err)}`
+    );
+  }
+}
+
+/**
+ * Register tools on a session's MCP server with shared validation,
+ * logging, rate limiting, metrics and error handling
+ */
+export function registerTools(
+  server: McpServer,
+  tools: ToolDefinition[],
+  {
+    sessionId,
+    logger,
+    canRenderUi,
+    widgets,
+    limiter,
+    clientIdentity,
+    metrics,
+    services = {},
+  }: RegisterToolsOptions
+): void {
+  for (const tool of tools) {
+    const widget = widgets.find(({ id }) => id === tool.widget);
+
+    if (tool.widget && !widget) {
+      logger.warn(
+        { toolName: tool.name, widgetId: tool.widget },
+        'Tool references a widget missing from the manifest, registering without UI'
+      );
+    }
+
+    // Hosts without MCP Apps support hand every tool to the model
+    if (!canRenderUi && !isModelVisible(tool)) {
+      logger.debug(
+        { toolName: tool.name },
+        'Skipping app-only tool for a host without UI support'
+      );
+      continue;
+    }
+
+    const resourceUri = widget?.uri;
+    const hasUi = Boolean(resourceUri) && canRenderUi;
+    const ui: McpUiToolMeta = {
+      ...(hasUi && { resourceUri }),
+      ...(canRenderUi && tool.visibility && { visibility: tool.visibility }),
+    };
+
+    registerAppTool(
+      server,
+      tool.name,
+      {
+        title: tool.title,
+        description: tool.description,
+        inputSchema: tool.inputSchema.shape,
+        outputSchema: tool.outputSchema?.shape,
+        _meta: Object.keys(ui).length > 0 ? { ui } : {},
+      },
+      async (args, extra): Promise<CallToolResult> => {
+        const call = async (): Promise<CallToolResult> => {
+          const toolLogger = logger.child({
+            sessionId: extra.sessionId ?? sessionId,
+            toolName: tool.name,
+          });
+
+          toolLogger.info({ args, canRenderUi }, 'Tool invoked');
+
+          // Stateless requests have no session, so limit by client instead
+          const permit = limiter?.acquire(
+            extra.sessionId ?? clientIdentity,
+            tool.name
+          );
+
+          if (permit && !permit.allowed) {
+            const retryAfterSeconds = Math.ceil(permit.retryAfterMs / 1000);
+            return {
+              ...errorResult(
+                `Error: ${permit.message}. Retry after ${retryAfterSeconds} seconds.`
+              ),
+              _meta: { retryAfterMs: permit.retryAfterMs },
+            };
+          }
+
+          const progressToken = extra._meta?.progressToken;
+
+          try {
+            return await runTool(
+              tool,
+              args,
+              {
+                sessionId: extra.sessionId ?? sessionId,
+                logger: toolLogger,
+                canRenderUi,
+                auth: extra.authInfo,
+                services,
+                signal: extra.signal,
+                progressToken,
+                async reportProgress(progress) {
+                  if (progressToken === undefined || extra.signal.aborted) {
+                    return;
+                  }
+                  await extra.sendNotification({
+                    method: 'notifications/progress',
+                    params: { progressToken, ...progress },
+                  });
+                },
+                elicit: (message, schema) =>
+                  elicit(server.server, message, schema, {
+                    relatedRequestId: extra.requestId,
+                    signal: extra.signal,
+                  }),
+              },
+              hasUi
+            );
+          } finally {
+            permit?.release();
+          }
+        };
+
+        return withSpan(
+          `tool ${tool.name}`,
+          {
+            'mcp.tool.name': tool.name,
+            'mcp.session.id': extra.sessionId ?? sessionId,
+          },
+          async (span) => {
+            const result = await (metrics
+              ? metrics.observeToolCall(tool.name, call)
+              : call());
+            if (result.isError) {
+              span.setStatus({ code: SpanStatusCode.ERROR });
+            }
+            return result;
+          }
+        );
+      }
+    );
+  }
+}
@@ -0,0 +1,275 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import {
+  context,
+  isSpanContextValid,
+  propagation,
+  SpanKind,
+  SpanStatusCode,
+  trace,
+  type Attributes,
+  type Context,
+  type Span,
+} from '@opentelemetry/api';
+import {
+  ExportResultCode,
+  hrTimeToMilliseconds,
+  hrTimeToTimeStamp,
+  type ExportResult,
+} from '@opentelemetry/core';
+import { OTLPTraceExporter } from '@opentelemetry/exporter-trace-otlp-http';
+import { resourceFromAttributes } from '@opentelemetry/resources';
+import {
+  BatchSpanProcessor,
+  NodeTracerProvider,
+  SimpleSpanProcessor,
+  type ReadableSpan,
+  type SpanExporter,
+} from '@opentelemetry/sdk-trace-node';
+import {
+  isJSONRPCErrorResponse,
+  isJSONRPCRequest,
+  isJSONRPCResultResponse,
+  type RequestId,
+} from '@modelcontextprotocol/sdk/types.js';
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import type { RequestHandler } from 'express';
+import type { Logger } from 'pino';
+
+export type TracingExporter = 'otlp' | 'file';
+
+export interface TracingOptions {
+  serviceName: string;
+  /** `otlp` sends to `OTEL_EXPORTER_OTLP_ENDPOINT`, `file` appends JSON lines */
+  exporter: TracingExporter;
+  /** Output file for the `file` exporter */
+  filePath: string;
+}
+
+const tracer = trace.getTracer('mcp-server');
+
+/**
+ * Writes finished spans to a file, one JSON object per line. Meant for tests
+ * and local debugging without a collector.
+ */
+export class FileSpanExporter implements SpanExporter {
+  private filePath: string;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  }
+
+  export(spans: ReadableSpan[], done: (result: ExportResult) => void): void {
+    try {
+      const lines = spans.map((span) =>
+        JSON.stringify({
+          traceId: span.spanContext().traceId,
+          spanId: span.spanContext().spanId,
+          parentSpanId: span.parentSpanContext?.spanId,
+          name: span.name,
+          kind: SpanKind[span.kind],
+          startTime: hrTimeToTimeStamp(span.startTime),
+          durationMs: hrTimeToMilliseconds(span.duration),
+          attributes: span.attributes,
+          status: span.status,
+          links: span.links.map((link) => link.context),
+        })
+      );
+      fs.appendFileSync(
+        this.filePath,
+        lines.map((line) => `${line}\n`).join('')
+      );
+      done({ code: ExportResultCode.SUCCESS });
+    } catch (err) {
+      done({ code: ExportResultCode.FAILED, error: err as Error });
+    }
+  }
+
+  async shutdown(): Promise<void> {}
+}
+
+/**
+ * Register a global tracer provider. Until this is called every span is a
+ * no-op, so tracing costs nothing when disabled.
+ */
+export function initTracing(
+  logger: Logger,
+  options: TracingOptions
+): NodeTracerProvider {
+  const spanProcessor =
+    options.exporter === 'file'
+      ? new SimpleSpanProcessor(new FileSpanExporter(options.filePath))
+      : new BatchSpanProcessor(new OTLPTraceExporter());
+
+  const provider = new NodeTracerProvider({
+    resource: resourceFromAttributes({ 'service.name': options.serviceName }),
+    spanProcessors: [spanProcessor],
+  });
+  provider.register();
+
+  logger.info(
+    {
+      exporter: options.exporter,
+      filePath: options.exporter === 'file' ? options.filePath : undefined,
+    },
+    'Tracing enabled'
+  );
+
+  return provider;
+}
+
+/**
+ * Trace and span ids of the active span, for the logger's `mixin`
+ */
+export function traceLogFields(): { traceId?: string; spanId?: string } {
+  const spanContext = trace.getActiveSpan()?.spanContext();
+  if (!spanContext || !isSpanContextValid(spanContext)) {
+    return {};
+  }
+  return { traceId: spanContext.traceId, spanId: spanContext.spanId };
+}
+
+/**
+ * Run `fn` inside a new active span, recording thrown errors on it
+ */
+export async function withSpan<T>(
+  name: string,
+  attributes: Attributes,
+  fn: (span: Span) => Promise<T>
+): Promise<T> {
+  return tracer.startActiveSpan(name, { attributes }, async (span) => {
+    try {
+      return await fn(span);
+    } catch (err) {
+      span.recordException(err as Error);
+      span.setStatus({ code: SpanStatusCode.ERROR });
+      throw err;
+    } finally {
+      span.end();
+    }
+  });
+}
+
+/**
+ * Express middleware that wraps each request in a server span, continuing
+ * any `traceparent` header
+ */
+export const traceRequest: RequestHandler = (req, res, next) => {
+  const parent = propagation.extract(context.active(), req.headers);
+  const span = tracer.startSpan(
+    `${req.method} ${req.path}`,
+    {
+      kind: SpanKind.SERVER,
+      attributes: {
+        'http.request.method': req.method,
+        'url.path': req.path,
+        'mcp.session.id': req.headers['mcp-session-id'],
+      },
+    },
+    parent
+  );
+
+  res.on('close', () => {
+    span.setAttribute('http.response.status_code', res.statusCode);
+    if (res.statusCode >= 500) {
+      span.setStatus({ code: SpanStatusCode.ERROR });
+    }
+    span.end();
+  });
+
+  context.with(trace.setSpan(parent, span), next);
+};
+
+/**
+ * Parent context for a JSON-RPC request: a `traceparent` in `params._meta`
+ * (e.g. from a widget's `callServerTool`) wins over the HTTP request span
+ */
+function requestContext(params: unknown): Context {
+  const meta =
+    typeof params === 'object' && params !== null && '_meta' in params
+      ? params._meta
+      : undefined;
+
+  if (typeof meta !== 'object' || meta === null || !('traceparent' in meta)) {
+    return context.active();
+  }
+  return propagation.extract(context.active(), meta);
+}
+
+/**
+ * Open a span for every JSON-RPC request received on `transport`, ending it
+ * when the response is sent. Call after `server.connect(transport)`.
+ */
+export function traceTransport(transport: Transport): void {
+  const receive = transport.onmessage;
+  const send = transport.send.bind(transport);
+  const spans = new Map<RequestId, Span>();
+
+  if (!receive) {
+    return;
+  }
+
+  transport.onmessage = (message, extra) => {
+    if (!isJSONRPCRequest(message)) {
+      receive(message, extra);
+      return;
+    }
+
+    const parent = requestContext(message.params);
+    const httpSpan = trace.getActiveSpan();
+    const span = tracer.startSpan(
+      `mcp ${message.method}`,
+      {
+        kind: SpanKind.SERVER,
+        attributes: {
+          'rpc.system': 'jsonrpc',
+          'rpc.method': message.method,
+          'rpc.jsonrpc.request_id': String(message.id),
+          'mcp.session.id': transport.sessionId,
+        },
+        // Keep the HTTP request reachable when the caller's trace is continued
+        links:
+          httpSpan && trace.getSpan(parent) !== httpSpan
+            ? [{ context: httpSpan.spanContext() }]
+            : [],
+      },
+      parent
+    );
+
+    spans.get(message.id)?.end();
+    spans.set(message.id, span);
+    context.with(trace.setSpan(context.active(), span), () =>
+      receive(message, extra)
+    );
+  };
+
+  const close = transport.onclose;
+  transport.onclose = () => {
+    for (const span of spans.values()) {
+      span.end();
+    }
+    spans.clear();
+    close?.();
+  };
+
+  transport.send = async (message, options) => {
+    if (
+      (isJSONRPCResultResponse(message) || isJSONRPCErrorResponse(message)) &&
+      message.id !== undefined
+    ) {
+      const span = spans.get(message.id);
+      if (span) {
+        if (isJSONRPCErrorResponse(message)) {
+          span.setStatus({
+            code: SpanStatusCode.ERROR,
+            message: message.error.message,
+          });
+        }
+        span.end();
+        spans.delete(message.id);
+      }
+    }
+    return send(message, options);
+  };
+}
@@ -0,0 +1,157 @@
+import type { Logger } from 'pino';
+
+export interface WidgetHtmlLoaderOptions {
+  /** Origin the built widget HTML is served from */
+  baseUrl: string;
+  /** How long a fetched copy is served before revalidating, in milliseconds */
+  maxAge: number;
+  /** Abort origin requests after this many milliseconds */
+  timeout: number;
+  /** Fetch the prebuilt `<widget>.inline.html` instead of `<widget>.html` */
+  inline?: boolean;
+}
+
+/** `fresh` and `stale` are cache hits; stale copies revalidate in the background */
+export type WidgetHtmlCacheStatus = 'miss' | 'fresh' | 'stale';
+
+interface CachedHtml {
+  html: string;
+  etag?: string;
+  lastModified?: string;
+  fetchedAt: number;
+}
+
+/**
+ * Loads widget HTML from `BASE_URL` with an in-memory cache. Stale copies are
+ * served immediately while a conditional request (ETag / Last-Modified)
+ * revalidates them, and the last good copy keeps being served while the
+ * origin is down.
+ */
+export class WidgetHtmlLoader {
+  private cache: Map<string, CachedHtml>;
+  private revalidations: Map<string, Promise<void>>;
+  private logger: Logger;
+  private options: WidgetHtmlLoaderOptions;
+
+  constructor(logger: Logger, options: WidgetHtmlLoaderOptions) {
+    this.cache = new Map();
+    this.revalidations = new Map();
+    this.logger = logger;
+    this.options = options;
+  }
+
+  /**
+   * Widget HTML, fetched on a cache miss. Only a miss can fail.
+   */
+  async load(
+    widgetId: string
+  ): Promise<{ html: string; cache: WidgetHtmlCacheStatus }> {
+    const cached = this.cache.get(widgetId);
+
+    if (!cached) {
+      const entry = await this.fetch(widgetId);
+      this.cache.set(widgetId, entry);
+      return { html: entry.html, cache: 'miss' };
+    }
+
+    if (Date.now() - cached.fetchedAt < this.options.maxAge) {
+      return { html: cached.html, cache: 'fresh' };
+    }
+
+    this.revalidate(widgetId, cached);
+    return { html: cached.html, cache: 'stale' };
+  }
+
+  /**
+   * Drop cached HTML for one widget, or all of them
+   */
+  purge(widgetId?: string): void {
+    if (widgetId) {
+      this.cache.delete(widgetId);
+    } else {
+      this.cache.clear();
+    }
+    this.logger.info({ widgetId }, 'Widget HTML cache purged');
+  }
+
+  /**
+   * Wait for background revalidations to finish
+   */
+  async settled(): Promise<void> {
+    await Promise.all(this.revalidations.values());
+  }
+
+  private revalidate(widgetId: string, cached: CachedHtml): void {
+    if (this.revalidations.has(widgetId)) {
+      return;
+    }
+
+    const revalidation = this.fetch(widgetId, cached)
+      .then((entry) => {
+        // A purge during the request wins over the response
+        if (this.cache.get(widgetId) !== cached) {
+          return;
+        }
+        if (entry.html !== cached.html) {
+          this.logger.info({ widgetId }, 'Widget HTML changed at origin');
+        }
+        this.cache.set(widgetId, entry);
+      })
+      .catch((err) => {
+        this.logger.warn(
+          { err, widgetId, ageMs: Date.now() - cached.fetchedAt },
+          'Widget HTML revalidation failed, serving last good copy'
+        );
+      })
+      .finally(() => {
+        this.revalidations.delete(widgetId);
+      });
+
+    this.revalidations.set(widgetId, revalidation);
+  }
+
+  /**
+   * Fetch from the origin, conditionally when there is a cached copy
+   */
+  private async fetch(
+    widgetId: string,
+    cached?: CachedHtml
+  ): Promise<CachedHtml> {
+    const file = `${widgetId}${this.options.inline ? '.inline' : ''}.html`;
+    const url = new URL(file, this.options.baseUrl).href;
+    const headers: Record<string, string> = {};
+
+    if (cached?.etag) {
+      headers['if-none-match'] = cached.etag;
+    }
+    if (cached?.lastModified) {
+      headers['if-modified-since'] = cached.lastModified;
+    }
+
+    this.logger.debug(
+      { url, conditional: Boolean(cached) },
+      'Fetching widget HTML'
+    );
+
+    const response = await fetch(url, {
+      headers,
+      signal: AbortSignal.timeout(this.options.timeout),
+    });
+
+    if (response.status === 304 && cached) {
+      return { ...cached, fetchedAt: Date.now() };
+    }
+    if (!response.ok) {
+      throw new Error(
+        `Failed to fetch widget HTML from ${url}: ${response.status} ${response.statusText}`
+      );
+    }
+
+    return {
+      html: await response.text(),
+      etag: response.headers.get('etag') ?? undefined,
+      lastModified: response.headers.get('last-modified') ?? undefined,
+      fetchedAt: Date.now(),
+    };
+  }
+}
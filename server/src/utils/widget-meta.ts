@@ -0,0 +1,33 @@
+import type { McpUiResourceMeta } from '@modelcontextprotocol/ext-apps';
+import type { WidgetCsp, WidgetDescriptor } from '../types.js';
+import { mergeCsp } from './csp.js';
+
+/**
+ * `_meta` for a widget's `ui://` resource contents: its CSP merged with
+ * `defaultCsp`, plus the border, domain and permissions it declares.
+ * Undefined when there is nothing to send.
+ */
+export function widgetResourceMeta(
+  widget: WidgetDescriptor,
+  defaultCsp: WidgetCsp
+): { ui: McpUiResourceMeta } | undefined {
+  const ui: McpUiResourceMeta = {};
+
+  const csp = mergeCsp(defaultCsp, widget.csp);
+  if (Object.values(csp).some((origins) => origins.length > 0)) {
+    ui.csp = csp;
+  }
+  if (widget.permissions?.length) {
+    ui.permissions = Object.fromEntries(
+      widget.permissions.map((permission) => [permission, {}])
+    );
+  }
+  if (widget.domain) {
+    ui.domain = widget.domain;
+  }
+  if (widget.prefersBorder !== undefined) {
+    ui.prefersBorder = widget.prefersBorder;
+  }
+
+  return Object.keys(ui).length > 0 ? { ui } : undefined;
+}
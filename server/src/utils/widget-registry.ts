@@ -0,0 +1,185 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import type { Logger } from 'pino';
+import {
+  WIDGET_MANIFEST_FILENAME,
+  WidgetManifestSchema,
+  type WidgetDescriptor,
+  type WidgetManifest,
+} from '../types.js';
+
+export interface WidgetRegistryOptions {
+  /** Directory holding the built widget assets and manifest */
+  assetsDir: string;
+  /** Vite dev server origin to load the manifest from before the assets dir */
+  devServerUrl?: string;
+  /** Widget origin to load the manifest from when the assets dir has none */
+  baseUrl?: string;
+  /** Timeout for remote manifest fetches in milliseconds */
+  fetchTimeout?: number;
+}
+
+/**
+ * Tracks the widgets listed in the build manifest
+ */
+export class WidgetRegistry {
+  private widgets: Map<string, WidgetDescriptor>;
+  private logger: Logger;
+  private options: WidgetRegistryOptions;
+  private watcher?: fs.FSWatcher;
+
+  constructor(logger: Logger, options: WidgetRegistryOptions) {
+    this.widgets = new Map();
+    this.logger = logger;
+    this.options = options;
+  }
+
+  /**
+   * Load (or reload) the manifest from the dev server, the assets dir or the
+   * widget origin, keeping the previous widgets on failure
+   */
+  async load(): Promise<WidgetDescriptor[]> {
+    const { devServerUrl, baseUrl } = this.options;
+    let manifest = devServerUrl
+      ? await this.fetchManifest(devServerUrl, 'Vite dev server')
+      : null;
+    manifest ??= this.readManifestFile();
+    if (!manifest && baseUrl) {
+      manifest = await this.fetchManifest(baseUrl, 'BASE_URL');
+    }
+
+    if (!manifest) {
+      if (this.widgets.size === 0) {
+        this.logger.warn(
+          { assetsDir: this.options.assetsDir, baseUrl },
+          'Widget manifest not found. Run "npm run build:widgets" to build widgets.'
+        );
+      }
+      return this.list();
+    }
+
+    this.widgets = new Map(
+      manifest.widgets.map((entry) => [
+        entry.id,
+        { ...entry, uri: `ui://${entry.id}` },
+      ])
+    );
+
+    this.logger.info(
+      { widgets: [...this.widgets.keys()], generatedAt: manifest.generatedAt },
+      'Loaded widget manifest'
+    );
+
+    return this.list();
+  }
+
+  /**
+   * Reload the manifest whenever the build rewrites it
+   */
+  watch(onChange?: (widgets: WidgetDescriptor[]) => void): void {
+    const { assetsDir } = this.options;
+
+    if (this.watcher || !fs.existsSync(assetsDir)) {
+      return;
+    }
+
+    this.watcher = fs.watch(assetsDir, (_eventType, filename) => {
+      if (filename !== WIDGET_MANIFEST_FILENAME) {
+        return;
+      }
+
+      this.logger.info('Widget manifest changed, reloading');
+      this.load()
+        .then((widgets) => onChange?.(widgets))
+        .catch((err) => {
+          this.logger.error({ err }, 'Failed to reload widget manifest');
+        });
+    });
+
+    this.logger.info({ assetsDir }, 'Watching widget manifest for changes');
+  }
+
+  /**
+   * Stop watching the manifest
+   */
+  close(): void {
+    this.watcher?.close();
+    this.watcher = undefined;
+  }
+
+  /**
+   * Get a widget by ID
+   */
+  get(widgetId: string): WidgetDescriptor | undefined {
+    return this.widgets.get(widgetId);
+  }
+
+  /**
+   * List all known widgets
+   */
+  list(): WidgetDescriptor[] {
+    return [...this.widgets.values()];
+  }
+
+  private async fetchManifest(
+    origin: string,
+    label: string
+  ): Promise<WidgetManifest | null> {
+    const url = new URL(WIDGET_MANIFEST_FILENAME, origin).href;
+    const { fetchTimeout } = this.options;
+
+    try {
+      const response = await fetch(url, {
+        signal: fetchTimeout ? AbortSignal.timeout(fetchTimeout) : undefined,
+      });
+      if (!response.ok) {
+        throw new Error(`Unexpected status ${response.status}`);
+      }
+      return this.parse(await response.json(), url);
+    } catch (err) {
+      this.logger.debug(
+        { err, url },
+        `Widget manifest not available from ${label}`
+      );
+      return null;
+    }
+  }
+
+  private readManifestFile(): WidgetManifest | null {
+    const manifestPath = path.join(
+      this.options.assetsDir,
+      WIDGET_MANIFEST_FILENAME
+    );
+
+    if (!fs.existsSync(manifestPath)) {
+      return null;
+    }
+
+    try {
+      return this.parse(
+        JSON.parse(fs.readFileSync(manifestPath, 'utf-8')),
+        manifestPath
+      );
+    } catch (err) {
+      this.logger.error(
+        { err, manifestPath },
+        'Failed to read widget manifest'
+      );
+      return null;
+    }
+  }
+
+  private parse(data: unknown, source: string): WidgetManifest | null {
+    const result = WidgetManifestSchema.safeParse(data);
+
+    if (!result.success) {
+      this.logger.error(
+        { source, issues: result.error.issues },
+        'Invalid widget manifest'
+      );
+      return null;
+    }
+
+    return result.data;
+  }
+}
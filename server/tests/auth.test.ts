@@ -0,0 +1,296 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { afterAll, beforeAll, describe, it, expect } from 'vitest';
+import express from 'express';
+import pino from 'pino';
+import { z } from 'zod';
+import { exportJWK, generateKeyPair, SignJWT, type CryptoKey } from 'jose';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { createAuth, getClaims, JwtVerifier } from '../src/utils/auth.js';
+import { MemoryEventStore } from '../src/utils/event-store.js';
+import { createMcpHandler } from '../src/utils/mcp-handler.js';
+import { SessionManager } from '../src/utils/session.js';
+import { defineTool, registerTools } from '../src/utils/tool-registry.js';
+
+const logger = pino({ level: 'silent' });
+const ISSUER = 'https://auth.example.com';
+const AUDIENCE = 'https://mcp.example.com/mcp';
+const PROTOCOL_VERSION = '2025-11-25';
+
+const whoami = defineTool({
+  name: 'whoami',
+  description: 'Returns the caller',
+  inputSchema: z.object({}),
+  async handler(_input, { auth }) {
+    return {
+      content: [{ type: 'text', text: String(getClaims(auth)?.sub) }],
+    };
+  },
+});
+
+describe('Bearer token auth', () => {
+  let tempDir: string;
+  let jwksPath: string;
+  let privateKey: CryptoKey;
+  let otherKey: CryptoKey;
+  let eventStore: MemoryEventStore;
+  let servers: Server[];
+  let baseUrl: string;
+  let auth: ReturnType<typeof createAuth>;
+
+  function sign(
+    claims: Record<string, unknown> = {},
+    {
+      key = privateKey,
+      issuer = ISSUER,
+      audience = AUDIENCE,
+      expiresIn = '5m',
+      subject = 'user-123',
+    } = {}
+  ) {
+    return new SignJWT({ scope: 'mcp:tools', ...claims })
+      .setProtectedHeader({ alg: 'RS256', kid: 'test-key' })
+      .setIssuer(issuer)
+      .setAudience(audience)
+      .setSubject(subject)
+      .setIssuedAt()
+      .setExpirationTime(expiresIn)
+      .sign(key);
+  }
+
+  beforeAll(async () => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'auth-'));
+    jwksPath = path.join(tempDir, 'jwks.json');
+
+    const keyPair = await generateKeyPair('RS256');
+    privateKey = keyPair.privateKey;
+    otherKey = (await generateKeyPair('RS256')).privateKey;
+    const jwk = await exportJWK(keyPair.publicKey);
+    fs.writeFileSync(
+      jwksPath,
+      JSON.stringify({ keys: [{ ...jwk, kid: 'test-key', alg: 'RS256' }] })
+    );
+
+    auth = createAuth(logger, {
+      issuer: ISSUER,
+      audience: AUDIENCE,
+      jwksPath,
+      resourceUrl: AUDIENCE,
+      requiredScopes: ['mcp:tools'],
+    });
+    eventStore = new MemoryEventStore(logger, {
+      maxEventsPerSession: 100,
+      ttl: 60_000,
+    });
+    servers = [];
+    baseUrl = await startServer();
+  });
+
+  afterAll(async () => {
+    for (const httpServer of servers) {
+      httpServer.closeAllConnections();
+      await new Promise((resolve) => httpServer.close(resolve));
+    }
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  /**
+   * Start a server process; later ones share the event store, like a
+   * restart with `EVENT_STORE=file`
+   */
+  async function startServer(): Promise<string> {
+    const app = express();
+    app.use(express.json());
+    app.use(auth.metadataRouter);
+    app.all(
+      '/mcp',
+      auth.requireAuth,
+      createMcpHandler({
+        logger,
+        sessionManager: new SessionManager(logger),
+        eventStore,
+        sessionMaxAge: 60_000,
+        async createServer(sessionId) {
+          const server = new McpServer({ name: 'test', version: '1.0.0' });
+          registerTools(server, [whoami], {
+            sessionId,
+            logger,
+            canRenderUi: false,
+            widgets: [],
+          });
+          return server;
+        },
+      })
+    );
+
+    const httpServer = createServer(app);
+    await new Promise<void>((resolve) => httpServer.listen(0, resolve));
+    servers.push(httpServer);
+    return `http://127.0.0.1:${(httpServer.address() as AddressInfo).port}`;
+  }
+
+  async function connect(url: string, token: string) {
+    const transport = new StreamableHTTPClientTransport(new URL(`${url}/mcp`), {
+      requestInit: { headers: { authorization: `Bearer ${token}` } },
+    });
+    const client = new Client({ name: 'test-client', version: '1.0.0' });
+    await client.connect(transport);
+    return { client, sessionId: transport.sessionId! };
+  }
+
+  function callWhoami(url: string, sessionId: string, token: string) {
+    return fetch(`${url}/mcp`, {
+      method: 'POST',
+      headers: {
+        'content-type': 'application/json',
+        accept: 'application/json, text/event-stream',
+        'mcp-protocol-version': PROTOCOL_VERSION,
+        'mcp-session-id': sessionId,
+        authorization: `Bearer ${token}`,
+      },
+      body: JSON.stringify({
+        jsonrpc: '2.0',
+        id: 2,
+        method: 'tools/call',
+        params: { name: 'whoami', arguments: {} },
+      }),
+    });
+  }
+
+  describe('JwtVerifier', () => {
+    function verifier() {
+      return new JwtVerifier(logger, {
+        issuer: ISSUER,
+        audience: AUDIENCE,
+        jwksPath,
+      });
+    }
+
+    it('should return auth info with the verified claims', async () => {
+      const token = await sign({ client_id: 'my-client' });
+      const authInfo = await verifier().verifyAccessToken(token);
+
+      expect(authInfo).toMatchObject({
+        token,
+        clientId: 'my-client',
+        scopes: ['mcp:tools'],
+        expiresAt: expect.any(Number),
+      });
+      expect(getClaims(authInfo)).toMatchObject({
+        iss: ISSUER,
+        sub: 'user-123',
+      });
+    });
+
+    it('should reject tokens for another audience', async () => {
+      const token = await sign({}, { audience: 'https://other.example.com' });
+
+      await expect(verifier().verifyAccessToken(token)).rejects.toThrow(/aud/);
+    });
+
+    it('should reject tokens from another issuer', async () => {
+      const token = await sign({}, { issuer: 'https://evil.example.com' });
+
+      await expect(verifier().verifyAccessToken(token)).rejects.toThrow(/iss/);
+    });
+
+    it('should reject expired tokens', async () => {
+      const token = await sign({}, { expiresIn: '-1m' });
+
+      await expect(verifier().verifyAccessToken(token)).rejects.toThrow(/exp/);
+    });
+
+    it('should reject tokens signed with an unknown key', async () => {
+      const token = await sign({}, { key: otherKey });
+
+      await expect(verifier().verifyAccessToken(token)).rejects.toThrow();
+    });
+  });
+
+  describe('HTTP', () => {
+    it('should serve protected resource metadata', async () => {
+      for (const pathname of [
+        '/.well-known/oauth-protected-resource/mcp',
+        '/.well-known/oauth-protected-resource',
+      ]) {
+        const response = await fetch(`${baseUrl}${pathname}`);
+
+        expect(await response.json()).toEqual({
+          resource: AUDIENCE,
+          authorization_servers: [ISSUER],
+          scopes_supported: ['mcp:tools'],
+          bearer_methods_supported: ['header'],
+        });
+      }
+    });
+
+    it('should challenge requests without a token', async () => {
+      const response = await fetch(`${baseUrl}/mcp`, { method: 'POST' });
+
+      expect(response.status).toBe(401);
+      expect(response.headers.get('www-authenticate')).toBe(
+        'Bearer error="invalid_token", error_description="Missing Authorization header", scope="mcp:tools", resource_metadata="https://mcp.example.com/.well-known/oauth-protected-resource/mcp"'
+      );
+    });
+
+    it('should reject tokens without the required scope', async () => {
+      const token = await sign({ scope: 'profile' });
+      const response = await fetch(`${baseUrl}/mcp`, {
+        method: 'POST',
+        headers: { authorization: `Bearer ${token}` },
+      });
+
+      expect(response.status).toBe(403);
+      expect(response.headers.get('www-authenticate')).toContain(
+        'error="insufficient_scope"'
+      );
+    });
+
+    it('should pass verified claims to tool handlers', async () => {
+      const { client } = await connect(baseUrl, await sign());
+
+      const result = await client.callTool({ name: 'whoami', arguments: {} });
+
+      expect(result.content).toEqual([{ type: 'text', text: 'user-123' }]);
+
+      await client.close();
+    });
+
+    it("should not route requests into another user's session", async () => {
+      const { client, sessionId } = await connect(baseUrl, await sign());
+      const otherToken = await sign({}, { subject: 'user-456' });
+
+      const response = await callWhoami(baseUrl, sessionId, otherToken);
+
+      expect(response.status).toBe(404);
+      expect(await response.json()).toMatchObject({
+        error: { code: -32001, message: 'Session not found' },
+      });
+
+      await client.close();
+    });
+
+    it("should not restore another user's session", async () => {
+      const { client, sessionId } = await connect(baseUrl, await sign());
+      const restartedUrl = await startServer();
+
+      const rejected = await callWhoami(
+        restartedUrl,
+        sessionId,
+        await sign({}, { subject: 'user-456' })
+      );
+      const accepted = await callWhoami(restartedUrl, sessionId, await sign());
+
+      expect(rejected.status).toBe(404);
+      expect(accepted.status).toBe(200);
+      expect(await accepted.text()).toContain('user-123');
+
+      await client.close();
+    });
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+import {
+  findDisallowedOrigins,
+  isOriginAllowed,
+  mergeCsp,
+} from '../src/utils/csp.js';
+import { WidgetCspSchema, WidgetDeclarationSchema } from '../src/types.js';
+
+describe('Widget CSP', () => {
+  it('should normalize declared origins', () => {
+    expect(
+      WidgetCspSchema.parse({
+        connectDomains: ['https://api.example.com/', 'wss://live.example.com'],
+        resourceDomains: ['https://*.cdn.example.com:8443'],
+      })
+    ).toEqual({
+      connectDomains: ['https://api.example.com', 'wss://live.example.com'],
+      resourceDomains: ['https://*.cdn.example.com:8443'],
+      frameDomains: [],
+    });
+  });
+
+  it('should reject values that are not origins', () => {
+    for (const value of [
+      'api.example.com',
+      'https://api.example.com/v1',
+      'https://api.example.com?x=1',
+      'ftp://files.example.com',
+      'https://api.*.example.com',
+    ]) {
+      expect(
+        WidgetCspSchema.safeParse({ connectDomains: [value] }).success,
+        value
+      ).toBe(false);
+    }
+  });
+
+  it('should reject unknown declaration keys', () => {
+    expect(
+      WidgetDeclarationSchema.safeParse({ csp: {}, cps: {} }).success
+    ).toBe(false);
+  });
+
+  it('should merge and dedupe CSP lists', () => {
+    expect(
+      mergeCsp({ resourceDomains: ['https://cdn.example.com'] }, undefined, {
+        resourceDomains: ['https://cdn.example.com', 'https://img.example.com'],
+        frameDomains: ['https://www.youtube.com'],
+      })
+    ).toEqual({
+      connectDomains: [],
+      resourceDomains: ['https://cdn.example.com', 'https://img.example.com'],
+      frameDomains: ['https://www.youtube.com'],
+    });
+  });
+
+  it('should match wildcard subdomains but not the bare domain', () => {
+    const origins = ['https://*.example.com'];
+
+    expect(isOriginAllowed(new URL('https://a.example.com/x'), origins)).toBe(
+      true
+    );
+    expect(isOriginAllowed(new URL('https://example.com'), origins)).toBe(
+      false
+    );
+    expect(isOriginAllowed(new URL('http://a.example.com'), origins)).toBe(
+      false
+    );
+  });
+
+  it('should find origins the built HTML loads from but the CSP blocks', () => {
+    const html = `<!doctype html>
+<html>
+<head>
+  <script type="module" src="https://cdn.example.com/echo.js"></script>
+  <link rel="stylesheet" href="https://fonts.example.com/font.css">
+</head>
+<body>
+  <img srcset="https://img.example.com/a.png 1x, /local.png 2x">
+  <iframe src="https://www.youtube.com/embed/x"></iframe>
+  <a href="https://docs.example.com">Docs</a>
+</body>
+</html>`;
+
+    expect(
+      findDisallowedOrigins(
+        html,
+        mergeCsp({
+          resourceDomains: [
+            'https://cdn.example.com',
+            'https://www.youtube.com',
+          ],
+        })
+      )
+    ).toEqual([
+      'https://fonts.example.com',
+      'https://img.example.com',
+      'https://www.youtube.com',
+    ]);
+  });
+});
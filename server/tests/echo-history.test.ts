@@ -0,0 +1,249 @@
+import { describe, it, expect, vi } from 'vitest';
+import pino from 'pino';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { ResourceUpdatedNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
+import {
+  ECHO_HISTORY_SERVICE,
+  EchoHistoryStore,
+  echoHistoryUri,
+  registerEchoHistory,
+} from '../src/utils/echo-history.js';
+import { registerTools } from '../src/utils/tool-registry.js';
+import echoTool from '../src/tools/echo.js';
+import echoHistoryTool from '../src/tools/echo-history.js';
+import echoClearHistoryTool from '../src/tools/echo-clear-history.js';
+import {
+  EchoHistorySchema,
+  EchoHistoryToolOutputSchema,
+  EchoToolOutputSchema,
+} from '../src/types.js';
+import { connectClient } from './helpers.js';
+
+const logger = pino({ level: 'silent' });
+
+function entry(echoedMessage: string) {
+  return { echoedMessage, timestamp: new Date().toISOString() };
+}
+
+async function connect(
+  history: EchoHistoryStore,
+  { sessionId }: { sessionId?: string } = { sessionId: 'session-a' }
+) {
+  const server = new McpServer({ name: 'test', version: '1.0.0' });
+  registerTools(server, [echoTool, echoHistoryTool, echoClearHistoryTool], {
+    sessionId,
+    logger,
+    canRenderUi: true,
+    widgets: [],
+    services: { [ECHO_HISTORY_SERVICE]: history },
+  });
+  registerEchoHistory(server, history, { sessionId, logger });
+
+  return { server, client: await connectClient(server) };
+}
+
+async function readHistory(client: Client, sessionId = 'session-a') {
+  const { contents } = await client.readResource({
+    uri: echoHistoryUri(sessionId),
+  });
+  return EchoHistorySchema.parse(JSON.parse(String(contents[0].text)));
+}
+
+describe('Echo history', () => {
+  describe('EchoHistoryStore', () => {
+    it('should keep the newest entries per session', () => {
+      const history = new EchoHistoryStore({ maxEntries: 2 });
+
+      history.record('a', entry('one'));
+      history.record('a', entry('two'));
+      history.record('a', entry('three'));
+      history.record('b', entry('other'));
+
+      expect(
+        history.get('a').entries.map(({ echoedMessage }) => echoedMessage)
+      ).toEqual(['two', 'three']);
+      expect(history.get('b').entries).toHaveLength(1);
+    });
+
+    it('should report changes and forget deleted sessions', () => {
+      const history = new EchoHistoryStore();
+      const changed = vi.fn();
+      history.on('changed', changed);
+
+      history.record('a', entry('one'));
+      history.delete('a');
+      history.delete('a');
+
+      expect(changed.mock.calls).toEqual([['a'], ['a']]);
+      expect(history.get('a')).toEqual({ sessionId: 'a', entries: [] });
+    });
+
+    it('should clear one entry by ID or all entries', () => {
+      const history = new EchoHistoryStore();
+      const timestamp = '2025-01-01T00:00:00Z';
+      history.record('a', entry('one'));
+      const two = history.record('a', { echoedMessage: 'two', timestamp });
+      const three = history.record('a', { echoedMessage: 'three', timestamp });
+
+      expect(two.id).not.toBe(three.id);
+      expect(history.clear('a', three.id)).toBe(1);
+      expect(
+        history.get('a').entries.map(({ echoedMessage }) => echoedMessage)
+      ).toEqual(['one', 'two']);
+      expect(history.clear('a', three.id)).toBe(0);
+      expect(history.clear('a')).toBe(2);
+      expect(history.clear('a')).toBe(0);
+      expect(history.get('a').entries).toEqual([]);
+    });
+  });
+
+  describe('history tools', () => {
+    async function echo(client: Client, message: string) {
+      const result = await client.callTool({
+        name: 'echo',
+        arguments: { message },
+      });
+      return EchoToolOutputSchema.parse(result.structuredContent);
+    }
+
+    it('should list and search the session history', async () => {
+      const history = new EchoHistoryStore();
+      history.record('session-b', entry('Hello from elsewhere'));
+      const { client } = await connect(history);
+      await echo(client, 'Hello there');
+      await echo(client, 'Goodbye');
+
+      const all = await client.callTool({
+        name: 'echo_history',
+        arguments: {},
+      });
+      const search = await client.callTool({
+        name: 'echo_history',
+        arguments: { query: 'hello' },
+      });
+
+      expect(all.structuredContent).toMatchObject({
+        entries: [
+          { echoedMessage: 'Hello there' },
+          { echoedMessage: 'Goodbye' },
+        ],
+        total: 2,
+      });
+      expect(search.structuredContent).toMatchObject({
+        entries: [{ echoedMessage: 'Hello there' }],
+        total: 2,
+      });
+      expect(search.content).toEqual([
+        { type: 'text', text: expect.stringContaining('"Hello there"') },
+      ]);
+    });
+
+    it('should delete one echo or the whole history', async () => {
+      const history = new EchoHistoryStore();
+      const { client } = await connect(history);
+      await echo(client, 'Delete me');
+      await echo(client, 'Keep me');
+      await echo(client, 'Keep me too');
+      const [{ id }] = EchoHistoryToolOutputSchema.parse(
+        (await client.callTool({ name: 'echo_history', arguments: {} }))
+          .structuredContent
+      ).entries;
+
+      const one = await client.callTool({
+        name: 'echo_clear_history',
+        arguments: { id },
+      });
+      expect(one.structuredContent).toEqual({ removed: 1, remaining: 2 });
+      expect(
+        history
+          .get('session-a')
+          .entries.map(({ echoedMessage }) => echoedMessage)
+      ).toEqual(['Keep me', 'Keep me too']);
+
+      const all = await client.callTool({
+        name: 'echo_clear_history',
+        arguments: {},
+      });
+      expect(all.structuredContent).toEqual({ removed: 2, remaining: 0 });
+      expect(all.content).toEqual([
+        { type: 'text', text: 'Deleted 2 echoed messages' },
+      ]);
+    });
+
+    it('should fail without a session', async () => {
+      const { client } = await connect(new EchoHistoryStore(), {});
+      const result = await client.callTool({
+        name: 'echo_history',
+        arguments: {},
+      });
+
+      expect(result.isError).toBe(true);
+      expect(result.content).toEqual([
+        {
+          type: 'text',
+          text: 'Error: Echo history is only kept for stateful sessions',
+        },
+      ]);
+    });
+  });
+
+  describe('registerEchoHistory', () => {
+    it("should list and read only the session's own history", async () => {
+      const history = new EchoHistoryStore();
+      history.record('session-b', entry('not yours'));
+      const { client } = await connect(history);
+
+      await client.callTool({ name: 'echo', arguments: { message: 'hi' } });
+
+      const { resources } = await client.listResources();
+      expect(resources.map(({ uri }) => uri)).toEqual([
+        'echo://history/session-a',
+      ]);
+      expect(await readHistory(client)).toEqual({
+        sessionId: 'session-a',
+        entries: [
+          {
+            id: expect.any(String),
+            echoedMessage: 'hi',
+            timestamp: expect.any(String),
+          },
+        ],
+      });
+      await expect(readHistory(client, 'session-b')).rejects.toThrow(
+        'not found'
+      );
+    });
+
+    it('should notify subscribers when a new echo lands', async () => {
+      const history = new EchoHistoryStore();
+      const { client } = await connect(history);
+      const updated = vi.fn();
+      client.setNotificationHandler(
+        ResourceUpdatedNotificationSchema,
+        ({ params }) => updated(params.uri)
+      );
+
+      expect(client.getServerCapabilities()?.resources?.subscribe).toBe(true);
+
+      await client.subscribeResource({ uri: echoHistoryUri('session-a') });
+      await client.callTool({ name: 'echo', arguments: { message: 'hi' } });
+      history.record('session-b', entry('elsewhere'));
+      await vi.waitFor(() => expect(updated).toHaveBeenCalledTimes(1));
+
+      await client.unsubscribeResource({ uri: echoHistoryUri('session-a') });
+      await client.callTool({ name: 'echo', arguments: { message: 'again' } });
+
+      expect(updated.mock.calls).toEqual([['echo://history/session-a']]);
+    });
+
+    it('should stop listening once the server closes', async () => {
+      const history = new EchoHistoryStore();
+      const { server } = await connect(history);
+
+      expect(history.listenerCount('changed')).toBe(1);
+      await server.close();
+      expect(history.listenerCount('changed')).toBe(0);
+    });
+  });
+});
@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { EchoToolInputSchema } from '../src/types.js';
+import { EchoToolInputSchema, EchoToolOutputSchema } from '../src/types.js';
 
 describe('Echo Tool', () => {
   describe('Input validation', () => {
@@ -28,6 +28,18 @@ describe('Echo Tool', () => {
 
       expect(() => EchoToolInputSchema.parse(input)).toThrow();
     });
+
+    it('should accept a slow echo delay between 1 and 30 seconds', () => {
+      expect(
+        EchoToolInputSchema.parse({ message: 'Slow', delaySeconds: 5 })
+      ).toEqual({ message: 'Slow', delaySeconds: 5 });
+      expect(() =>
+        EchoToolInputSchema.parse({ message: 'Slow', delaySeconds: 0 })
+      ).toThrow();
+      expect(() =>
+        EchoToolInputSchema.parse({ message: 'Slow', delaySeconds: 31 })
+      ).toThrow();
+    });
   });
 
   describe('Tool output structure', () => {
@@ -44,6 +56,19 @@ describe('Echo Tool', () => {
       expect(output).toHaveProperty('timestamp');
       expect(output.echoedMessage).toBe('Test message');
       expect(output.timestamp).toMatch(/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}/);
+      expect(EchoToolOutputSchema.parse(output)).toEqual(output);
+    });
+
+    it('should reject output with a non-ISO timestamp', () => {
+      const output = { echoedMessage: 'Test message', timestamp: 'yesterday' };
+
+      expect(() => EchoToolOutputSchema.parse(output)).toThrow();
+    });
+
+    it('should reject output without an echoed message', () => {
+      const output = { timestamp: new Date().toISOString() };
+
+      expect(() => EchoToolOutputSchema.parse(output)).toThrow();
     });
   });
 });
@@ -0,0 +1,252 @@
+import { describe, it, expect, vi } from 'vitest';
+import pino from 'pino';
+import { z } from 'zod';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import {
+  ElicitRequestSchema,
+  type ClientCapabilities,
+  type ElicitResult,
+} from '@modelcontextprotocol/sdk/types.js';
+import {
+  ECHO_HISTORY_SERVICE,
+  EchoHistoryStore,
+} from '../src/utils/echo-history.js';
+import {
+  supportsFormElicitation,
+  toRequestedSchema,
+} from '../src/utils/elicitation.js';
+import { registerTools } from '../src/utils/tool-registry.js';
+import echoForgetTool from '../src/tools/echo-forget.js';
+import { connectClient } from './helpers.js';
+
+const logger = pino({ level: 'silent' });
+
+/**
+ * Connect an in-process client standing in for the host. With `answer` it
+ * declares form elicitation and replies to every request with it.
+ */
+async function connect(history: EchoHistoryStore, answer?: ElicitResult) {
+  const server = new McpServer({ name: 'test', version: '1.0.0' });
+  registerTools(server, [echoForgetTool], {
+    sessionId: 'session-a',
+    logger,
+    canRenderUi: false,
+    widgets: [],
+    services: { [ECHO_HISTORY_SERVICE]: history },
+  });
+
+  const client = new Client(
+    { name: 'test-client', version: '1.0.0' },
+    { capabilities: answer ? { elicitation: { form: {} } } : {} }
+  );
+  const elicitation = vi.fn(() => answer ?? { action: 'cancel' });
+  if (answer) {
+    client.setRequestHandler(ElicitRequestSchema, ({ params }) =>
+      elicitation(params)
+    );
+  }
+
+  await connectClient(server, client);
+
+  return { client, elicitation };
+}
+
+function historyWith(...messages: string[]) {
+  const history = new EchoHistoryStore();
+  for (const echoedMessage of messages) {
+    history.record('session-a', {
+      echoedMessage,
+      timestamp: new Date().toISOString(),
+    });
+  }
+  return history;
+}
+
+function messages(history: EchoHistoryStore) {
+  return history
+    .get('session-a')
+    .entries.map(({ echoedMessage }) => echoedMessage);
+}
+
+describe('Elicitation', () => {
+  describe('toRequestedSchema', () => {
+    it('should derive a flat form schema', () => {
+      const schema = z.object({
+        name: z.string().describe('Your name'),
+        age: z.number().int().optional(),
+        color: z.enum(['red', 'blue']).default('red'),
+        subscribe: z.boolean(),
+      });
+
+      expect(toRequestedSchema(schema)).toEqual({
+        type: 'object',
+        properties: {
+          name: { type: 'string', description: 'Your name' },
+          age: expect.objectContaining({ type: 'integer' }),
+          color: { type: 'string', enum: ['red', 'blue'], default: 'red' },
+          subscribe: { type: 'boolean' },
+        },
+        required: ['name', 'subscribe'],
+      });
+    });
+
+    it('should reject nested fields', () => {
+      const schema = z.object({ address: z.object({ city: z.string() }) });
+
+      expect(() => toRequestedSchema(schema)).toThrow(
+        'Elicitation field "address" must be a string, number, integer, boolean or enum'
+      );
+    });
+  });
+
+  describe('supportsFormElicitation', () => {
+    it.each<[ClientCapabilities | undefined, boolean]>([
+      [undefined, false],
+      [{}, false],
+      [{ elicitation: {} }, true],
+      [{ elicitation: { form: {} } }, true],
+      [{ elicitation: { url: {} } }, false],
+      [{ elicitation: { form: {}, url: {} } }, true],
+    ])('should treat %j as %s', (capabilities, expected) => {
+      expect(supportsFormElicitation(capabilities)).toBe(expected);
+    });
+  });
+
+  describe('echo_forget', () => {
+    it('should delete matching echoes once the user accepts', async () => {
+      const history = historyWith('Hello there', 'Goodbye', 'hello again');
+      const { client, elicitation } = await connect(history, {
+        action: 'accept',
+        content: { confirm: true },
+      });
+
+      const result = await client.callTool({
+        name: 'echo_forget',
+        arguments: { query: 'hello' },
+      });
+
+      expect(elicitation).toHaveBeenCalledWith({
+        mode: 'form',
+        message: 'Forget 2 echoed messages containing "hello"?',
+        requestedSchema: {
+          type: 'object',
+          properties: {
+            confirm: { type: 'boolean', description: 'Forget these echoes' },
+          },
+          required: ['confirm'],
+        },
+      });
+      expect(result.structuredContent).toEqual({ removed: 2, remaining: 1 });
+      expect(result.content).toEqual([
+        { type: 'text', text: 'Forgot 2 echoed messages' },
+      ]);
+      expect(messages(history)).toEqual(['Goodbye']);
+    });
+
+    it.each<ElicitResult>([
+      { action: 'decline' },
+      { action: 'cancel' },
+      { action: 'accept', content: { confirm: false } },
+    ])('should keep echoes when the user answers %j', async (answer) => {
+      const history = historyWith('Hello there');
+      const { client } = await connect(history, answer);
+
+      const result = await client.callTool({
+        name: 'echo_forget',
+        arguments: { query: 'hello' },
+      });
+
+      expect(result.isError).toBeFalsy();
+      expect(result.structuredContent).toEqual({ removed: 0, remaining: 1 });
+      expect(messages(history)).toEqual(['Hello there']);
+    });
+
+    it('should reject answers that do not match the form', async () => {
+      const history = historyWith('Hello there');
+      const { client } = await connect(history, {
+        action: 'accept',
+        content: { confirm: 'yes' },
+      });
+
+      const result = await client.callTool({
+        name: 'echo_forget',
+        arguments: { query: 'hello' },
+      });
+
+      expect(result.isError).toBe(true);
+      expect(messages(history)).toEqual(['Hello there']);
+    });
+
+    it('should ask the model to prompt the user without elicitation', async () => {
+      const history = historyWith('Hello there');
+      const { client } = await connect(history);
+
+      const result = await client.callTool({
+        name: 'echo_forget',
+        arguments: { query: 'hello' },
+      });
+
+      expect(result.isError).toBe(true);
+      expect(result.content).toEqual([
+        {
+          type: 'text',
+          text: [
+            'Error: Forget 1 echoed message containing "hello"?',
+            '',
+            "This client can't ask the user directly. Ask the user, then call this tool again with:",
+            '  - confirm (boolean): Forget these echoes',
+          ].join('\n'),
+        },
+      ]);
+      expect(messages(history)).toEqual(['Hello there']);
+    });
+
+    it('should still show the form when a capable client sends confirm', async () => {
+      const history = historyWith('Hello there', 'Goodbye');
+      const { client, elicitation } = await connect(history, {
+        action: 'decline',
+      });
+
+      const result = await client.callTool({
+        name: 'echo_forget',
+        arguments: { query: 'hello', confirm: true },
+      });
+
+      expect(elicitation).toHaveBeenCalledOnce();
+      expect(result.structuredContent).toEqual({ removed: 0, remaining: 2 });
+      expect(messages(history)).toEqual(['Hello there', 'Goodbye']);
+    });
+
+    it('should accept confirm from clients without elicitation', async () => {
+      const history = historyWith('Hello there', 'Goodbye');
+      const { client } = await connect(history);
+
+      const result = await client.callTool({
+        name: 'echo_forget',
+        arguments: { query: 'hello', confirm: true },
+      });
+
+      expect(result.structuredContent).toEqual({ removed: 1, remaining: 1 });
+      expect(messages(history)).toEqual(['Goodbye']);
+    });
+
+    it('should not ask when nothing matches', async () => {
+      const history = historyWith('Goodbye');
+      const { client, elicitation } = await connect(history, {
+        action: 'accept',
+        content: { confirm: true },
+      });
+
+      const result = await client.callTool({
+        name: 'echo_forget',
+        arguments: { query: 'hello' },
+      });
+
+      expect(elicitation).not.toHaveBeenCalled();
+      expect(result.content).toEqual([
+        { type: 'text', text: 'No echoed messages contain "hello"' },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,208 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, it, expect, vi } from 'vitest';
+import pino from 'pino';
+import type { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
+import {
+  FileEventStore,
+  MemoryEventStore,
+  type EventStore,
+} from '../src/utils/event-store.js';
+
+const logger = pino({ level: 'silent' });
+const options = { maxEventsPerSession: 3, ttl: 60_000 };
+
+function message(id: number): JSONRPCMessage {
+  return { jsonrpc: '2.0', id, result: {} };
+}
+
+async function replay(
+  store: EventStore,
+  sessionId: string,
+  lastEventId: string
+) {
+  const replayed: JSONRPCMessage[] = [];
+  const streamId = await store
+    .forSession(sessionId)
+    .replayEventsAfter(lastEventId, {
+      send: async (_eventId, msg) => {
+        replayed.push(msg);
+      },
+    });
+  return { streamId, replayed };
+}
+
+describe('MemoryEventStore', () => {
+  let store: MemoryEventStore;
+
+  beforeEach(() => {
+    store = new MemoryEventStore(logger, options);
+  });
+
+  it('should replay events after the last event ID on the same stream', async () => {
+    const events = store.forSession('session-1');
+    const first = await events.storeEvent('stream-a', message(1));
+    await events.storeEvent('stream-b', message(2));
+    await events.storeEvent('stream-a', message(3));
+
+    const { streamId, replayed } = await replay(store, 'session-1', first);
+
+    expect(streamId).toBe('stream-a');
+    expect(replayed).toEqual([message(3)]);
+  });
+
+  it('should not replay events from another session', async () => {
+    const eventId = await store
+      .forSession('session-1')
+      .storeEvent('stream-a', message(1));
+
+    await expect(
+      store.forSession('session-2').getStreamIdForEventId?.(eventId)
+    ).resolves.toBeUndefined();
+  });
+
+  it('should drop the oldest events beyond the per-session cap', async () => {
+    const events = store.forSession('session-1');
+    const first = await events.storeEvent('stream-a', message(1));
+    const second = await events.storeEvent('stream-a', message(2));
+    await events.storeEvent('stream-a', message(3));
+    await events.storeEvent('stream-a', message(4));
+
+    expect(store.eventCount()).toBe(3);
+    await expect(
+      events.getStreamIdForEventId?.(first)
+    ).resolves.toBeUndefined();
+    expect((await replay(store, 'session-1', second)).replayed).toEqual([
+      message(3),
+      message(4),
+    ]);
+  });
+
+  it('should expire events older than the TTL', async () => {
+    vi.useFakeTimers();
+    try {
+      const events = store.forSession('session-1');
+      const eventId = await events.storeEvent('stream-a', message(1));
+
+      vi.advanceTimersByTime(options.ttl + 1);
+
+      await expect(events.getStreamIdForEventId?.(eventId)).resolves.toBe(
+        undefined
+      );
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('should delete session records and events', async () => {
+    await store.forSession('session-1').storeEvent('stream-a', message(1));
+    await store.saveSession({
+      sessionId: 'session-1',
+      createdAt: new Date().toISOString(),
+      initializeParams: {
+        protocolVersion: '2025-11-25',
+        capabilities: {},
+        clientInfo: { name: 'test', version: '1.0.0' },
+      },
+    });
+
+    await store.deleteSession('session-1');
+
+    expect(await store.getSession('session-1')).toBeUndefined();
+    expect(store.eventCount()).toBe(0);
+  });
+});
+
+describe('FileEventStore', () => {
+  let tempDir: string;
+  let filePath: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'event-store-'));
+    filePath = path.join(tempDir, 'nested', 'events.jsonl');
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should persist sessions and events across reopening', async () => {
+    const record = {
+      sessionId: 'session-1',
+      createdAt: new Date().toISOString(),
+      initializeParams: {
+        protocolVersion: '2025-11-25',
+        capabilities: {},
+        clientInfo: { name: 'test', version: '1.0.0' },
+      },
+    };
+    const store = new FileEventStore(logger, { ...options, filePath });
+    await store.saveSession(record);
+    const events = store.forSession('session-1');
+    const first = await events.storeEvent('stream-a', message(1));
+    await events.storeEvent('stream-a', message(2));
+    await store.flush();
+
+    const reopened = new FileEventStore(logger, { ...options, filePath });
+
+    expect(await reopened.getSession('session-1')).toEqual(record);
+    expect((await replay(reopened, 'session-1', first)).replayed).toEqual([
+      message(2),
+    ]);
+  });
+
+  it('should not restore deleted sessions', async () => {
+    const store = new FileEventStore(logger, { ...options, filePath });
+    await store.forSession('session-1').storeEvent('stream-a', message(1));
+    await store.deleteSession('session-1');
+    await store.flush();
+
+    const reopened = new FileEventStore(logger, { ...options, filePath });
+
+    expect(reopened.eventCount()).toBe(0);
+  });
+
+  it('should compact the file when reopened', async () => {
+    const store = new FileEventStore(logger, { ...options, filePath });
+    const events = store.forSession('session-1');
+    for (let i = 0; i < 10; i++) {
+      await events.storeEvent('stream-a', message(i));
+    }
+    await store.flush();
+
+    new FileEventStore(logger, { ...options, filePath });
+
+    const lines = fs.readFileSync(filePath, 'utf-8').trim().split('\n');
+    expect(lines).toHaveLength(options.maxEventsPerSession);
+  });
+
+  it('should compact while appending without losing events', async () => {
+    const store = new FileEventStore(logger, { ...options, filePath });
+    const events = store.forSession('session-1');
+    for (let i = 0; i < 1500; i++) {
+      await events.storeEvent('stream-a', message(i));
+    }
+    const last = await events.storeEvent('stream-a', message(1500));
+    await events.storeEvent('stream-a', message(1501));
+    await store.flush();
+
+    const lines = fs.readFileSync(filePath, 'utf-8').trim().split('\n');
+    const reopened = new FileEventStore(logger, { ...options, filePath });
+
+    expect(store.eventCount()).toBe(options.maxEventsPerSession);
+    expect(lines.length).toBeLessThan(1000);
+    expect((await replay(reopened, 'session-1', last)).replayed).toEqual([
+      message(1501),
+    ]);
+  });
+
+  it('should skip unreadable lines', async () => {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, 'not json\n');
+
+    const store = new FileEventStore(logger, { ...options, filePath });
+
+    expect(store.eventCount()).toBe(0);
+  });
+});
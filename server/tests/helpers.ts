@@ -0,0 +1,22 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+
+/**
+ * Connect an in-process client to `server` over linked in-memory
+ * transports. Pass a client to declare capabilities or register request
+ * handlers before it connects.
+ */
+export async function connectClient(
+  server: McpServer,
+  client = new Client({ name: 'test-client', version: '1.0.0' })
+): Promise<Client> {
+  const [clientTransport, serverTransport] =
+    InMemoryTransport.createLinkedPair();
+  await Promise.all([
+    server.connect(serverTransport),
+    client.connect(clientTransport),
+  ]);
+
+  return client;
+}
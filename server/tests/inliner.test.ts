@@ -0,0 +1,206 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, it, expect } from 'vitest';
+import { InlineError, inlineWidgetHtml } from '../src/utils/inliner.js';
+
+const DEV_ORIGIN = 'http://localhost:4444';
+
+function decodeDataUrl(url: string): string {
+  return Buffer.from(url.split(',')[1], 'base64').toString('utf-8');
+}
+
+/** `src` of the first module script */
+function scriptSrc(html: string): string {
+  const match = html.match(/<script[^>]*src="([^"]+)"/);
+  if (!match) {
+    throw new Error('No script src in inlined HTML');
+  }
+  return match[1];
+}
+
+/** Specifier to `data:` URL entries of the inlined import map */
+function importMap(html: string): Record<string, string> {
+  const match = html.match(/<script type="importmap">(.*?)<\/script>/);
+  if (!match) {
+    throw new Error('No import map in inlined HTML');
+  }
+  return (JSON.parse(match[1]) as { imports: Record<string, string> }).imports;
+}
+
+describe('inlineWidgetHtml', () => {
+  let assetsDir: string;
+
+  function writeAssets(files: Record<string, string>) {
+    for (const [file, content] of Object.entries(files)) {
+      fs.mkdirSync(path.dirname(path.join(assetsDir, file)), {
+        recursive: true,
+      });
+      fs.writeFileSync(path.join(assetsDir, file), content);
+    }
+  }
+
+  function inline(html: string, options: { maxAssetBytes?: number } = {}) {
+    return inlineWidgetHtml(html, {
+      assetsDir,
+      publicUrls: [DEV_ORIGIN],
+      ...options,
+    });
+  }
+
+  beforeEach(() => {
+    assetsDir = fs.mkdtempSync(path.join(os.tmpdir(), 'inliner-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(assetsDir, { recursive: true, force: true });
+  });
+
+  it('should embed the entry script and its static and dynamic chunks', async () => {
+    writeAssets({
+      'echo-abc.js': [
+        `import { shared } from './shared-123.js';`,
+        `const lazy = () => import("./lazy-456.js");`,
+      ].join('\n'),
+      'shared-123.js': 'export const shared = 1;',
+      'lazy-456.js': `export * from './shared-123.js';`,
+    });
+
+    const result = await inline(
+      `<html><head><script src="${DEV_ORIGIN}/echo-abc.js" crossorigin type="module"></script></head></html>`
+    );
+
+    const imports = importMap(result.html);
+
+    expect(result.html.indexOf('importmap')).toBeLessThan(
+      result.html.indexOf('<script src=')
+    );
+    expect(decodeDataUrl(scriptSrc(result.html))).toBe(
+      [
+        `import { shared } from '@inline/shared-123.js';`,
+        `const lazy = () => import("@inline/lazy-456.js");`,
+      ].join('\n')
+    );
+    expect(decodeDataUrl(imports['@inline/shared-123.js'])).toBe(
+      'export const shared = 1;'
+    );
+    expect(decodeDataUrl(imports['@inline/lazy-456.js'])).toBe(
+      `export * from '@inline/shared-123.js';`
+    );
+    expect(result.assets.map(({ file }) => file).sort()).toEqual([
+      'echo-abc.js',
+      'lazy-456.js',
+      'shared-123.js',
+    ]);
+  });
+
+  it('should turn stylesheets into style blocks with fonts and @imports embedded', async () => {
+    writeAssets({
+      'echo.css': [
+        `@import "./base.css";`,
+        `@font-face { font-family: Geist; src: url(/geist.woff2) format("woff2"); }`,
+        `.logo { background: url('img/logo.svg#mark'); }`,
+      ].join('\n'),
+      'base.css': 'body { margin: 0 }',
+      'geist.woff2': 'font-bytes',
+      'img/logo.svg': '<svg/>',
+    });
+
+    const { html } = await inline(
+      `<link href='${DEV_ORIGIN}/echo.css' media="screen" rel=stylesheet>`
+    );
+
+    expect(html).toContain('<style media="screen">body { margin: 0 }');
+    expect(html).toContain(
+      `url("data:font/woff2;base64,${Buffer.from('font-bytes').toString('base64')}")`
+    );
+    expect(html).toContain(
+      `url("data:image/svg+xml;base64,${Buffer.from('<svg/>').toString('base64')}#mark")`
+    );
+    expect(html).not.toContain('<link');
+  });
+
+  it('should embed images and drop preloads of embedded files only', async () => {
+    writeAssets({ 'echo.js': '', 'a.png': 'png', 'b.png': 'png2x' });
+
+    const { html, externalUrls } = await inline(
+      [
+        `<link rel="modulepreload" href="${DEV_ORIGIN}/echo.js">`,
+        `<link rel="preload" as="font" href="https://cdn.example.com/font.woff2">`,
+        `<img srcset="/a.png 1x, /b.png 2x" src="/a.png" alt="">`,
+        `<div style="background-image: url(&quot;/b.png&quot;)"></div>`,
+      ].join('\n')
+    );
+
+    expect(html).not.toContain('modulepreload');
+    expect(html).toContain('href="https://cdn.example.com/font.woff2"');
+    expect(html).toContain('src="data:image/png;base64,cG5n"');
+    expect(html).toContain(
+      'srcset="data:image/png;base64,cG5n 1x, data:image/png;base64,cG5nMng= 2x"'
+    );
+    expect(html).toContain(
+      'style="background-image: url(&quot;data:image/png;base64,cG5nMng=&quot;)"'
+    );
+    expect(externalUrls).toEqual(['https://cdn.example.com/font.woff2']);
+  });
+
+  it('should share one module between the entry and a lazy chunk importing from it', async () => {
+    writeAssets({
+      'echo.js': [
+        `export const render = (text) => text;`,
+        `import("./lazy-abc.js").then(({ shout }) => shout("hi"));`,
+      ].join('\n'),
+      'lazy-abc.js': [
+        `import { render } from './echo.js';`,
+        `export const shout = (text) => render(text.toUpperCase());`,
+      ].join('\n'),
+    });
+
+    const { html, assets } = await inline(
+      `<script type="module" crossorigin src="${DEV_ORIGIN}/echo.js"></script>`
+    );
+    const imports = importMap(html);
+
+    // The entry's own URL is mapped, so the chunk gets the running instance
+    expect(imports['@inline/echo.js']).toBe(scriptSrc(html));
+    expect(decodeDataUrl(imports['@inline/lazy-abc.js'])).toContain(
+      `from '@inline/echo.js'`
+    );
+    expect(assets.map(({ file }) => file).sort()).toEqual([
+      'echo.js',
+      'lazy-abc.js',
+    ]);
+  });
+
+  it('should fail on missing files and CSS import cycles', async () => {
+    writeAssets({
+      'a.css': `@import './b.css';`,
+      'b.css': `@import './a.css';`,
+      'broken.css': '.x { background: url(/missing.png) }',
+      'echo.js': `import './missing.js';`,
+    });
+
+    await expect(
+      inline('<link rel="stylesheet" href="/broken.css">')
+    ).rejects.toThrow(/missing\.png \(referenced from broken\.css\) not found/);
+    await expect(
+      inline('<script type="module" src="/echo.js"></script>')
+    ).rejects.toThrow(/missing\.js \(referenced from echo\.js\) not found/);
+    await expect(
+      inline('<link rel="stylesheet" href="/a.css">')
+    ).rejects.toThrow('Circular import a.css -> b.css -> a.css');
+  });
+
+  it('should enforce size budgets', async () => {
+    writeAssets({ 'big.js': 'x'.repeat(100) });
+    const html = '<script type="module" src="/big.js"></script>';
+
+    await expect(inline(html, { maxAssetBytes: 50 })).rejects.toThrow(
+      InlineError
+    );
+    await expect(
+      inlineWidgetHtml(html, { assetsDir, maxTotalBytes: 100 })
+    ).rejects.toThrow(/over the 100 byte budget/);
+    await expect(inline(html, { maxAssetBytes: 0 })).resolves.toBeDefined();
+  });
+});
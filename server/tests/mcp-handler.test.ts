@@ -0,0 +1,691 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { afterEach, beforeEach, describe, it, expect } from 'vitest';
+import express from 'express';
+import pino from 'pino';
+import { z } from 'zod';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import {
+  registerAppResource,
+  RESOURCE_MIME_TYPE,
+} from '@modelcontextprotocol/ext-apps/server';
+import { FileEventStore } from '../src/utils/event-store.js';
+import {
+  canRenderUi,
+  createMcpHandler,
+  type McpClientCapabilities,
+  type SessionLimits,
+} from '../src/utils/mcp-handler.js';
+import { ToolCallLimiter } from '../src/utils/rate-limit.js';
+import { SessionManager } from '../src/utils/session.js';
+import { defineTool, registerTools } from '../src/utils/tool-registry.js';
+
+const logger = pino({ level: 'silent' });
+const PROTOCOL_VERSION = '2025-11-25';
+
+const UI_CAPABILITIES = {
+  extensions: {
+    'io.modelcontextprotocol/ui': { mimeTypes: [RESOURCE_MIME_TYPE] },
+  },
+};
+
+/** Widget tool with a text fallback for hosts without UI */
+const whisperTool = defineTool({
+  name: 'whisper',
+  description: 'Lowercases text',
+  inputSchema: z.object({ text: z.string() }),
+  outputSchema: z.object({ text: z.string() }),
+  widget: 'shout',
+  renderText: ({ text }) => `_${text}_`,
+  async handler({ text }) {
+    return {
+      content: [{ type: 'text', text: text.toLowerCase() }],
+      structuredContent: { text: text.toLowerCase() },
+    };
+  },
+});
+
+/** Tool only widgets may call */
+const refreshTool = defineTool({
+  name: 'refresh',
+  description: 'Refreshes the widget',
+  inputSchema: z.object({}),
+  visibility: ['app'],
+  async handler() {
+    return { content: [{ type: 'text', text: 'refreshed' }] };
+  },
+});
+
+interface SseEvent {
+  id?: string;
+  data: string;
+}
+
+/**
+ * One running server "process": HTTP server, sessions and event store
+ */
+async function startServer(
+  filePath: string,
+  {
+    stateless = false,
+    sessionLimits,
+    createDelay = 0,
+    toolCallsPerMinute = 0,
+  }: {
+    stateless?: boolean;
+    sessionLimits?: SessionLimits;
+    /** Milliseconds `createServer` takes, to overlap concurrent requests */
+    createDelay?: number;
+    toolCallsPerMinute?: number;
+  } = {}
+) {
+  const createdServers: Array<McpClientCapabilities | undefined> = [];
+  const sessionManager = new SessionManager(logger);
+  const eventStore = new FileEventStore(logger, {
+    filePath,
+    maxEventsPerSession: 100,
+    ttl: 60_000,
+  });
+
+  const limiter = new ToolCallLimiter(logger, {
+    toolCallsPerMinute,
+    maxConcurrentToolCalls: 0,
+  });
+
+  const app = express();
+  app.use(express.json());
+  app.all(
+    '/mcp',
+    createMcpHandler({
+      logger,
+      sessionManager,
+      eventStore,
+      sessionMaxAge: 60_000,
+      stateless,
+      sessionLimits,
+      async createServer(_sessionId, clientCapabilities, clientIdentity) {
+        createdServers.push(clientCapabilities);
+        await new Promise((resolve) => setTimeout(resolve, createDelay));
+        const server = new McpServer({ name: 'test', version: '1.0.0' });
+        server.registerTool(
+          'shout',
+          {
+            inputSchema: { text: z.string() },
+            _meta: { ui: { resourceUri: 'ui://shout' } },
+          },
+          async ({ text }) => ({
+            content: [{ type: 'text', text: text.toUpperCase() }],
+          })
+        );
+        registerTools(server, [whisperTool, refreshTool], {
+          logger,
+          canRenderUi: canRenderUi(clientCapabilities),
+          limiter,
+          clientIdentity,
+          widgets: [
+            {
+              id: 'shout',
+              title: 'Shout',
+              uri: 'ui://shout',
+              html: 'shout.html',
+              js: null,
+              css: null,
+            },
+          ],
+        });
+        registerAppResource(
+          server,
+          'ui://shout',
+          'ui://shout',
+          { mimeType: RESOURCE_MIME_TYPE },
+          async () => ({
+            contents: [
+              {
+                uri: 'ui://shout',
+                mimeType: RESOURCE_MIME_TYPE,
+                text: '<html>shout</html>',
+              },
+            ],
+          })
+        );
+        return server;
+      },
+    })
+  );
+
+  const httpServer: Server = createServer(app);
+  await new Promise<void>((resolve) => httpServer.listen(0, resolve));
+  const { port } = httpServer.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}/mcp`,
+    sessionManager,
+    createdServers,
+    /** Stop like a SIGTERM would: close sessions and the store, then HTTP */
+    async stop() {
+      await sessionManager.closeAll();
+      await eventStore.close();
+      httpServer.closeAllConnections();
+      await new Promise((resolve) => httpServer.close(resolve));
+    },
+  };
+}
+
+/**
+ * Read SSE events from a response until `done` returns true or it ends
+ */
+async function readEvents(
+  response: Response,
+  done: (events: SseEvent[]) => boolean = () => false
+): Promise<SseEvent[]> {
+  const reader = response
+    .body!.pipeThrough(new TextDecoderStream())
+    .getReader();
+  const events: SseEvent[] = [];
+  let buffer = '';
+
+  while (!done(events)) {
+    const { value, done: ended } = await reader.read();
+    if (ended) {
+      break;
+    }
+    buffer += value;
+
+    let boundary: number;
+    while ((boundary = buffer.indexOf('\n\n')) !== -1) {
+      const block = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+      const event: SseEvent = { data: '' };
+      for (const line of block.split('\n')) {
+        if (line.startsWith('id: ')) event.id = line.slice(4);
+        if (line.startsWith('data: ')) event.data += line.slice(6);
+      }
+      events.push(event);
+    }
+  }
+
+  await reader.cancel();
+  return events;
+}
+
+function post(url: string, body: unknown, sessionId?: string) {
+  return fetch(url, {
+    method: 'POST',
+    headers: {
+      'content-type': 'application/json',
+      accept: 'application/json, text/event-stream',
+      'mcp-protocol-version': PROTOCOL_VERSION,
+      ...(sessionId ? { 'mcp-session-id': sessionId } : {}),
+    },
+    body: JSON.stringify(body),
+  });
+}
+
+async function initialize(url: string): Promise<string> {
+  const response = await post(url, {
+    jsonrpc: '2.0',
+    id: 1,
+    method: 'initialize',
+    params: {
+      protocolVersion: PROTOCOL_VERSION,
+      capabilities: {},
+      clientInfo: { name: 'test-client', version: '1.0.0' },
+    },
+  });
+  const sessionId = response.headers.get('mcp-session-id')!;
+  await readEvents(response);
+  await post(
+    url,
+    { jsonrpc: '2.0', method: 'notifications/initialized' },
+    sessionId
+  );
+  return sessionId;
+}
+
+function callShout(url: string, sessionId: string, id: number) {
+  return post(
+    url,
+    {
+      jsonrpc: '2.0',
+      id,
+      method: 'tools/call',
+      params: { name: 'shout', arguments: { text: 'hello' } },
+    },
+    sessionId
+  );
+}
+
+function hasResultEvent(id: number) {
+  return (event: SseEvent) => event.data.includes(`"id":${id}`);
+}
+
+function hasResult(id: number) {
+  return (events: SseEvent[]) => events.some(hasResultEvent(id));
+}
+
+describe('MCP handler', () => {
+  let tempDir: string;
+  let filePath: string;
+  let stops: Array<() => Promise<void>>;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'mcp-handler-'));
+    filePath = path.join(tempDir, 'events.jsonl');
+    stops = [];
+  });
+
+  afterEach(async () => {
+    for (const stop of stops) {
+      await stop();
+    }
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  async function start(options?: Parameters<typeof startServer>[1]) {
+    const server = await startServer(filePath, options);
+    stops.push(server.stop);
+    return server;
+  }
+
+  it('should replay a stream with Last-Event-ID after a restart', async () => {
+    const first = await start();
+    const sessionId = await initialize(first.url);
+
+    // Resume from the priming event, as if the connection dropped before
+    // the tool result arrived
+    const [priming] = await readEvents(
+      await callShout(first.url, sessionId, 2),
+      hasResult(2)
+    );
+    expect(priming.id).toBeDefined();
+
+    await first.stop();
+    stops = [];
+    const second = await start();
+
+    const response = await fetch(second.url, {
+      headers: {
+        accept: 'text/event-stream',
+        'mcp-protocol-version': PROTOCOL_VERSION,
+        'mcp-session-id': sessionId,
+        'last-event-id': priming.id!,
+      },
+    });
+    const replayed = await readEvents(response, hasResult(2));
+
+    expect(response.status).toBe(200);
+    expect(replayed.find(hasResultEvent(2))?.data).toContain('HELLO');
+    expect(second.sessionManager.get(sessionId)).toBeDefined();
+  });
+
+  it('should accept new requests on a restored session', async () => {
+    const first = await start();
+    const sessionId = await initialize(first.url);
+
+    await first.stop();
+    stops = [];
+    const second = await start();
+
+    const events = await readEvents(
+      await callShout(second.url, sessionId, 3),
+      hasResult(3)
+    );
+
+    expect(events.find(hasResultEvent(3))?.data).toContain('HELLO');
+  });
+
+  it('should restore a session once for concurrent requests', async () => {
+    const first = await start();
+    const sessionId = await initialize(first.url);
+
+    await first.stop();
+    stops = [];
+    const second = await start({ createDelay: 100 });
+
+    const responses = await Promise.all([
+      callShout(second.url, sessionId, 5),
+      callShout(second.url, sessionId, 6),
+    ]);
+    const events = await Promise.all([
+      readEvents(responses[0], hasResult(5)),
+      readEvents(responses[1], hasResult(6)),
+    ]);
+
+    expect(second.createdServers).toHaveLength(1);
+    expect(events[0].find(hasResultEvent(5))?.data).toContain('HELLO');
+    expect(events[1].find(hasResultEvent(6))?.data).toContain('HELLO');
+  });
+
+  it('should not restore sessions beyond the session limits', async () => {
+    const first = await start();
+    const restored = await initialize(first.url);
+    const rejected = await initialize(first.url);
+
+    await first.stop();
+    stops = [];
+    const second = await start({
+      sessionLimits: { maxSessions: 1, maxSessionsPerClient: 0 },
+    });
+
+    const accepted = await callShout(second.url, restored, 5);
+    await readEvents(accepted, hasResult(5));
+    const response = await callShout(second.url, rejected, 6);
+
+    expect(accepted.status).toBe(200);
+    expect(response.status).toBe(429);
+    expect(await response.json()).toMatchObject({
+      error: {
+        message: 'Too many sessions: the server allows 1 concurrent sessions',
+      },
+      id: 6,
+    });
+    expect(second.sessionManager.get(rejected)).toBeUndefined();
+  });
+
+  it('should count concurrent restores against the session limits', async () => {
+    const first = await start();
+    const sessionIds = [
+      await initialize(first.url),
+      await initialize(first.url),
+    ];
+
+    await first.stop();
+    stops = [];
+    const second = await start({
+      createDelay: 100,
+      sessionLimits: { maxSessions: 1, maxSessionsPerClient: 0 },
+    });
+
+    const responses = await Promise.all(
+      sessionIds.map((sessionId, index) =>
+        callShout(second.url, sessionId, 10 + index)
+      )
+    );
+
+    expect(responses.map(({ status }) => status).sort()).toEqual([200, 429]);
+    expect(second.sessionManager.count()).toBe(1);
+  });
+
+  it('should not restore sessions the client deleted', async () => {
+    const first = await start();
+    const sessionId = await initialize(first.url);
+
+    await fetch(first.url, {
+      method: 'DELETE',
+      headers: {
+        'mcp-protocol-version': PROTOCOL_VERSION,
+        'mcp-session-id': sessionId,
+      },
+    });
+
+    await first.stop();
+    stops = [];
+    const second = await start();
+
+    const response = await callShout(second.url, sessionId, 4);
+
+    expect(response.status).toBe(400);
+  });
+
+  describe('session limits', () => {
+    it('should reject sessions beyond the per-client limit with a retry hint', async () => {
+      const server = await start({
+        sessionLimits: { maxSessions: 10, maxSessionsPerClient: 1 },
+      });
+      await initialize(server.url);
+
+      const response = await post(server.url, {
+        jsonrpc: '2.0',
+        id: 7,
+        method: 'initialize',
+        params: {
+          protocolVersion: PROTOCOL_VERSION,
+          capabilities: {},
+          clientInfo: { name: 'test-client', version: '1.0.0' },
+        },
+      });
+
+      expect(response.status).toBe(429);
+      expect(response.headers.get('retry-after')).toBe('60');
+      expect(await response.json()).toEqual({
+        jsonrpc: '2.0',
+        error: {
+          code: -32000,
+          message:
+            'Too many sessions: each client may open 1 concurrent sessions',
+          data: { retryAfterSeconds: 60 },
+        },
+        id: 7,
+      });
+      expect(server.sessionManager.count()).toBe(1);
+    });
+
+    it('should reject sessions beyond the overall limit', async () => {
+      const server = await start({
+        sessionLimits: { maxSessions: 1, maxSessionsPerClient: 0 },
+      });
+      await initialize(server.url);
+
+      const response = await post(server.url, {
+        jsonrpc: '2.0',
+        id: 8,
+        method: 'initialize',
+        params: {
+          protocolVersion: PROTOCOL_VERSION,
+          capabilities: {},
+          clientInfo: { name: 'test-client', version: '1.0.0' },
+        },
+      });
+
+      expect(response.status).toBe(429);
+    });
+
+    it('should count sessions still initializing against the limits', async () => {
+      const server = await start({
+        createDelay: 100,
+        sessionLimits: { maxSessions: 3, maxSessionsPerClient: 2 },
+      });
+
+      const responses = await Promise.all(
+        [1, 2, 3, 4].map((id) =>
+          post(server.url, {
+            jsonrpc: '2.0',
+            id,
+            method: 'initialize',
+            params: {
+              protocolVersion: PROTOCOL_VERSION,
+              capabilities: {},
+              clientInfo: { name: 'test-client', version: '1.0.0' },
+            },
+          })
+        )
+      );
+      await Promise.all(
+        responses
+          .filter(({ status }) => status === 200)
+          .map((response) => readEvents(response))
+      );
+
+      expect(responses.map(({ status }) => status)).toEqual([
+        200, 200, 429, 429,
+      ]);
+      expect(server.sessionManager.count()).toBe(2);
+      expect(server.createdServers).toHaveLength(2);
+    });
+  });
+
+  describe('stateless mode', () => {
+    it('should serve a client whose requests alternate between replicas', async () => {
+      const replicas = [
+        await start({ stateless: true }),
+        await start({ stateless: true }),
+      ];
+      const urls: string[] = [];
+      let next = 0;
+
+      // Round-robin load balancer in front of both replicas
+      const client = new Client({ name: 'test-client', version: '1.0.0' });
+      const transport = new StreamableHTTPClientTransport(
+        new URL(replicas[0].url),
+        {
+          fetch: (_input, init) => {
+            const url = replicas[next++ % replicas.length].url;
+            urls.push(url);
+            return fetch(url, init);
+          },
+        }
+      );
+      await client.connect(transport);
+
+      const { tools } = await client.listTools();
+      const resource = await client.readResource({ uri: 'ui://shout' });
+      const result = await client.callTool({
+        name: 'shout',
+        arguments: { text: 'hello' },
+      });
+
+      expect(new Set(urls).size).toBe(2);
+      expect(tools[0]._meta).toEqual({ ui: { resourceUri: 'ui://shout' } });
+      expect(resource.contents[0]).toMatchObject({
+        mimeType: RESOURCE_MIME_TYPE,
+        text: '<html>shout</html>',
+      });
+      expect(result.content).toEqual([{ type: 'text', text: 'HELLO' }]);
+      expect(replicas[0].sessionManager.count()).toBe(0);
+      expect(replicas[1].sessionManager.count()).toBe(0);
+
+      await client.close();
+    });
+
+    it('should pass the initialize capabilities on every request', async () => {
+      const replicas = [
+        await start({ stateless: true }),
+        await start({ stateless: true }),
+      ];
+      let next = 0;
+      const client = new Client(
+        { name: 'test-client', version: '1.0.0' },
+        { capabilities: UI_CAPABILITIES }
+      );
+      await client.connect(
+        new StreamableHTTPClientTransport(new URL(replicas[0].url), {
+          fetch: (_input, init) =>
+            fetch(replicas[next++ % replicas.length].url, init),
+        })
+      );
+
+      await client.listTools();
+      await client.listTools();
+
+      expect(replicas[0].createdServers).toEqual([
+        UI_CAPABILITIES,
+        UI_CAPABILITIES,
+      ]);
+      expect(replicas[1].createdServers).toEqual([
+        UI_CAPABILITIES,
+        UI_CAPABILITIES,
+      ]);
+
+      await client.close();
+    });
+
+    it('should serve UI hosts with widgets and app-only tools', async () => {
+      const replica = await start({ stateless: true });
+      const client = new Client(
+        { name: 'test-client', version: '1.0.0' },
+        { capabilities: UI_CAPABILITIES }
+      );
+      await client.connect(
+        new StreamableHTTPClientTransport(new URL(replica.url))
+      );
+
+      const { tools } = await client.listTools();
+      const result = await client.callTool({
+        name: 'whisper',
+        arguments: { text: 'HELLO' },
+      });
+
+      expect(tools.map((tool) => tool.name)).toContain('refresh');
+      expect(result.content).toEqual([{ type: 'text', text: 'hello' }]);
+
+      await client.close();
+    });
+
+    it('should hide app-only tools and use text fallbacks for text-only hosts', async () => {
+      const replica = await start({ stateless: true });
+      const client = new Client({ name: 'test-client', version: '1.0.0' });
+      await client.connect(
+        new StreamableHTTPClientTransport(new URL(replica.url))
+      );
+
+      const { tools } = await client.listTools();
+      const result = await client.callTool({
+        name: 'whisper',
+        arguments: { text: 'HELLO' },
+      });
+
+      expect(tools.map((tool) => tool.name)).not.toContain('refresh');
+      expect(tools.find((tool) => tool.name === 'whisper')?._meta).toEqual({});
+      expect(result.content).toEqual([{ type: 'text', text: '_hello_' }]);
+
+      await client.close();
+    });
+
+    it('should treat requests without a capability token as text-only', async () => {
+      const replica = await start({ stateless: true });
+
+      const response = await post(replica.url, {
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'tools/list',
+      });
+      const [event] = await readEvents(response, hasResult(1));
+
+      expect(replica.createdServers).toEqual([undefined]);
+      expect(event.data).not.toContain('"refresh"');
+    });
+
+    it('should rate limit unauthenticated clients by IP address', async () => {
+      const replica = await start({ stateless: true, toolCallsPerMinute: 2 });
+      const client = new Client({ name: 'test-client', version: '1.0.0' });
+      await client.connect(
+        new StreamableHTTPClientTransport(new URL(replica.url))
+      );
+
+      const call = () =>
+        client.callTool({ name: 'whisper', arguments: { text: 'HELLO' } });
+      const results = [await call(), await call(), await call()];
+
+      expect(results.map((result) => Boolean(result.isError))).toEqual([
+        false,
+        false,
+        true,
+      ]);
+      expect(results[2].content).toEqual([
+        {
+          type: 'text',
+          text: expect.stringContaining(
+            'Rate limit exceeded: at most 2 tool calls per minute'
+          ),
+        },
+      ]);
+
+      await client.close();
+    });
+
+    it('should reject GET requests', async () => {
+      const replica = await start({ stateless: true });
+
+      const response = await fetch(replica.url, {
+        headers: { accept: 'text/event-stream' },
+      });
+
+      expect(response.status).toBe(405);
+    });
+  });
+});
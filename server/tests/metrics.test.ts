@@ -0,0 +1,119 @@
+import { describe, it, expect, vi } from 'vitest';
+import pino from 'pino';
+import { z } from 'zod';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { Metrics } from '../src/utils/metrics.js';
+import { SessionManager } from '../src/utils/session.js';
+import { defineTool, registerTools } from '../src/utils/tool-registry.js';
+import { connectClient } from './helpers.js';
+
+const logger = pino({ level: 'silent' });
+
+const greet = defineTool({
+  name: 'greet',
+  description: 'Greets someone',
+  inputSchema: z.object({ name: z.string() }),
+  async handler({ name }) {
+    if (!name) {
+      throw new Error('Name is required');
+    }
+    return { content: [{ type: 'text', text: `Hello, ${name}` }] };
+  },
+});
+
+async function connect(metrics: Metrics) {
+  const server = new McpServer({ name: 'test', version: '1.0.0' });
+  registerTools(server, [greet], {
+    sessionId: 'test',
+    logger,
+    canRenderUi: false,
+    widgets: [],
+    metrics,
+  });
+
+  return connectClient(server);
+}
+
+describe('Metrics', () => {
+  it('should count tool calls and errors with latency per tool', async () => {
+    const metrics = new Metrics({ defaultMetrics: false });
+    const client = await connect(metrics);
+
+    await client.callTool({ name: 'greet', arguments: { name: 'Ada' } });
+    await client.callTool({ name: 'greet', arguments: { name: 'Bob' } });
+    await client.callTool({ name: 'greet', arguments: { name: '' } });
+
+    const text = await metrics.registry.metrics();
+
+    expect(text).toContain('mcp_tool_calls_total{tool="greet"} 3');
+    expect(text).toContain('mcp_tool_errors_total{tool="greet"} 1');
+    expect(text).toContain(
+      'mcp_tool_call_duration_seconds_count{tool="greet"} 3'
+    );
+
+    await client.close();
+  });
+
+  it('should report active and expired sessions', async () => {
+    vi.useFakeTimers();
+    const metrics = new Metrics({ defaultMetrics: false });
+    const manager = new SessionManager(logger);
+    metrics.trackSessions(manager);
+
+    for (const sessionId of ['a', 'b']) {
+      manager.create(
+        sessionId,
+        { close: vi.fn() } as unknown as McpServer,
+        { close: vi.fn() } as unknown as StreamableHTTPServerTransport
+      );
+    }
+    vi.advanceTimersByTime(2 * 60_000);
+    manager.touch('b');
+
+    await manager.cleanup({ idleTimeout: 60_000, maxAge: 60 * 60_000 });
+    const text = await metrics.registry.metrics();
+
+    expect(text).toContain('mcp_sessions_active 1');
+    expect(text).toContain('mcp_sessions_expired_total{reason="idle"} 1');
+
+    vi.useRealTimers();
+  });
+
+  it('should time widget reads by source, including failures, and count inline cache hits', async () => {
+    const metrics = new Metrics({ defaultMetrics: false });
+
+    await metrics.observeWidgetRead('echo', async () => ({
+      html: '<html></html>',
+      source: 'assets' as const,
+    }));
+    await metrics.observeWidgetRead('echo', async () => ({
+      html: '<html></html>',
+      source: 'inline_cache' as const,
+    }));
+    await metrics.observeWidgetRead('echo', async () => ({
+      html: '<html></html>',
+      source: 'inline_cache' as const,
+    }));
+    await expect(
+      metrics.observeWidgetRead('echo', async () => {
+        throw new Error('Widget fetch timed out');
+      })
+    ).rejects.toThrow('Widget fetch timed out');
+
+    const text = await metrics.registry.metrics();
+
+    expect(text).toContain(
+      'mcp_widget_read_duration_seconds_count{widget="echo",source="assets"} 1'
+    );
+    expect(text).toContain(
+      'mcp_widget_read_duration_seconds_count{widget="echo",source="inline_cache"} 2'
+    );
+    expect(text).toContain(
+      'mcp_widget_read_duration_seconds_count{widget="echo",source="error"} 1'
+    );
+    expect(text).toContain(
+      'mcp_widget_inline_cache_hits_total{widget="echo"} 2'
+    );
+  });
+});
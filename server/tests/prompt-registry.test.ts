@@ -0,0 +1,180 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { describe, it, expect } from 'vitest';
+import pino from 'pino';
+import { z } from 'zod';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import {
+  definePrompt,
+  loadPrompts,
+  registerPrompts,
+  renderPrompt,
+  type PromptDefinition,
+} from '../src/utils/prompt-registry.js';
+import { defineTool, type ToolDefinition } from '../src/utils/tool-registry.js';
+import { connectClient } from './helpers.js';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const PROMPTS_DIR = path.resolve(__dirname, '..', 'src', 'prompts');
+const logger = pino({ level: 'silent' });
+
+const greetTool = defineTool({
+  name: 'greet',
+  description: 'Greets someone',
+  inputSchema: z.object({ name: z.string().min(1, 'Name is required') }),
+  widget: 'greet',
+  async handler({ name }) {
+    return { content: [{ type: 'text', text: `Hello, ${name}` }] };
+  },
+});
+
+const greetPrompt = definePrompt({
+  name: 'greet',
+  title: 'Greet',
+  description: 'Greet someone in the Greet widget',
+  argsSchema: z.object({
+    name: z.string(),
+    mood: z.string().optional(),
+  }),
+  template: 'Say hello to {{name}}{{ mood }}',
+  tool: 'greet',
+  toolArguments: ({ name }) => ({ name }),
+});
+
+async function connect(
+  prompts: PromptDefinition[],
+  tools: ToolDefinition[] = [greetTool]
+) {
+  const server = new McpServer({ name: 'test', version: '1.0.0' });
+  registerPrompts(server, prompts, { sessionId: 'test', logger, tools });
+
+  return connectClient(server);
+}
+
+describe('Prompt registry', () => {
+  describe('loadPrompts', () => {
+    it('should discover prompt modules in src/prompts', async () => {
+      const prompts = await loadPrompts(PROMPTS_DIR, logger);
+
+      expect(prompts.map((prompt) => prompt.name)).toContain('echo');
+    });
+
+    it('should reject templates with unknown arguments', async () => {
+      const promptsDir = fs.mkdtempSync(path.join(os.tmpdir(), 'prompts-'));
+      fs.writeFileSync(
+        path.join(promptsDir, 'broken.js'),
+        `export default { name: 'broken', argsSchema: { shape: { name: {} } }, template: '{{name}} {{nmae}}' };`
+      );
+
+      try {
+        await expect(loadPrompts(promptsDir, logger)).rejects.toThrow(
+          'uses unknown template arguments: nmae'
+        );
+      } finally {
+        fs.rmSync(promptsDir, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe('renderPrompt', () => {
+    it('should fill in arguments and leave missing optional ones empty', () => {
+      const result = renderPrompt(
+        { ...greetPrompt, tool: undefined },
+        { name: 'Ada' }
+      );
+
+      expect(result.messages).toEqual([
+        { role: 'user', content: { type: 'text', text: 'Say hello to Ada' } },
+      ]);
+    });
+
+    it('should ask the model to call the referenced tool', () => {
+      const result = renderPrompt(
+        greetPrompt,
+        { name: 'Ada', mood: ' warmly' },
+        greetTool
+      );
+
+      expect(result.messages[0].content).toEqual({
+        type: 'text',
+        text: 'Say hello to Ada warmly\n\nCall the `greet` tool with {"name":"Ada"}.',
+      });
+    });
+
+    it('should reject arguments the referenced tool would reject', () => {
+      expect(() => renderPrompt(greetPrompt, { name: '' }, greetTool)).toThrow(
+        'Prompt "greet" arguments are not valid input for tool "greet": Name is required'
+      );
+    });
+  });
+
+  describe('registerPrompts', () => {
+    it('should list prompts with their arguments', async () => {
+      const client = await connect([greetPrompt]);
+      const { prompts } = await client.listPrompts();
+
+      expect(prompts).toEqual([
+        expect.objectContaining({
+          name: 'greet',
+          title: 'Greet',
+          arguments: [
+            expect.objectContaining({ name: 'name', required: true }),
+            expect.objectContaining({ name: 'mood', required: false }),
+          ],
+        }),
+      ]);
+    });
+
+    it('should render prompts for clients', async () => {
+      const client = await connect([greetPrompt]);
+      const result = await client.getPrompt({
+        name: 'greet',
+        arguments: { name: 'Ada' },
+      });
+
+      expect(result.messages[0].content).toEqual({
+        type: 'text',
+        text: 'Say hello to Ada\n\nCall the `greet` tool with {"name":"Ada"}.',
+      });
+    });
+
+    it('should render without the tool when it is not registered', async () => {
+      const client = await connect([greetPrompt], []);
+      const result = await client.getPrompt({
+        name: 'greet',
+        arguments: { name: 'Ada' },
+      });
+
+      expect(result.messages[0].content).toEqual({
+        type: 'text',
+        text: 'Say hello to Ada',
+      });
+    });
+
+    it('should render without the tool when it is app-only', async () => {
+      const client = await connect(
+        [greetPrompt],
+        [{ ...greetTool, visibility: ['app'] }]
+      );
+      const result = await client.getPrompt({
+        name: 'greet',
+        arguments: { name: 'Ada' },
+      });
+
+      expect(result.messages[0].content).toEqual({
+        type: 'text',
+        text: 'Say hello to Ada',
+      });
+    });
+
+    it('should reject missing required arguments', async () => {
+      const client = await connect([greetPrompt]);
+
+      await expect(
+        client.getPrompt({ name: 'greet', arguments: {} })
+      ).rejects.toThrow();
+    });
+  });
+});
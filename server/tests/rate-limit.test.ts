@@ -0,0 +1,86 @@
+import { afterEach, beforeEach, describe, it, expect, vi } from 'vitest';
+import pino from 'pino';
+import { ToolCallLimiter } from '../src/utils/rate-limit.js';
+
+const logger = pino({ level: 'silent' });
+
+describe('ToolCallLimiter', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2025-01-01T00:00:00Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should limit calls per key within a sliding minute', () => {
+    const limiter = new ToolCallLimiter(logger, {
+      toolCallsPerMinute: 2,
+      maxConcurrentToolCalls: 0,
+    });
+
+    expect(limiter.acquire('session-1', 'echo').allowed).toBe(true);
+    vi.advanceTimersByTime(20_000);
+    expect(limiter.acquire('session-1', 'echo').allowed).toBe(true);
+
+    const rejected = limiter.acquire('session-1', 'echo');
+    expect(rejected).toMatchObject({
+      allowed: false,
+      reason: 'rate',
+      retryAfterMs: 40_000,
+    });
+
+    expect(limiter.acquire('session-2', 'echo').allowed).toBe(true);
+
+    vi.advanceTimersByTime(40_001);
+    expect(limiter.acquire('session-1', 'echo').allowed).toBe(true);
+  });
+
+  it('should cap in-flight calls until they are released', () => {
+    const limiter = new ToolCallLimiter(logger, {
+      toolCallsPerMinute: 0,
+      maxConcurrentToolCalls: 1,
+    });
+
+    const first = limiter.acquire('session-1', 'echo');
+    expect(first.allowed).toBe(true);
+    expect(limiter.acquire('session-2', 'echo')).toMatchObject({
+      allowed: false,
+      reason: 'concurrency',
+    });
+
+    if (first.allowed) {
+      first.release();
+      first.release();
+    }
+
+    expect(limiter.activeCalls()).toBe(0);
+    expect(limiter.acquire('session-2', 'echo').allowed).toBe(true);
+  });
+
+  it('should not count calls rejected for concurrency against the rate', () => {
+    const limiter = new ToolCallLimiter(logger, {
+      toolCallsPerMinute: 1,
+      maxConcurrentToolCalls: 1,
+    });
+
+    const busy = limiter.acquire('session-1', 'echo');
+    expect(limiter.acquire('session-2', 'echo').allowed).toBe(false);
+    if (busy.allowed) {
+      busy.release();
+    }
+
+    expect(limiter.acquire('session-2', 'echo').allowed).toBe(true);
+  });
+
+  it('should only apply the concurrency cap to calls without a key', () => {
+    const limiter = new ToolCallLimiter(logger, {
+      toolCallsPerMinute: 1,
+      maxConcurrentToolCalls: 0,
+    });
+
+    expect(limiter.acquire(undefined, 'echo').allowed).toBe(true);
+    expect(limiter.acquire(undefined, 'echo').allowed).toBe(true);
+  });
+});
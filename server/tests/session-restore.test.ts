@@ -0,0 +1,110 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { createRequire } from 'node:module';
+import { createServer } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { describe, it, expect } from 'vitest';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import type { SessionRecord } from '../src/utils/event-store.js';
+import {
+  RESTORE_SDK_VERSION,
+  restoreInitializedState,
+} from '../src/utils/session-restore.js';
+
+/**
+ * Version of the installed SDK, found by walking up from its entry point
+ */
+function installedSdkVersion(): string {
+  const require = createRequire(import.meta.url);
+  let dir = path.dirname(require.resolve('@modelcontextprotocol/sdk/server'));
+
+  for (;;) {
+    const packagePath = path.join(dir, 'package.json');
+    if (fs.existsSync(packagePath)) {
+      const pkg = JSON.parse(fs.readFileSync(packagePath, 'utf-8')) as {
+        name?: string;
+        version: string;
+      };
+      if (pkg.name === '@modelcontextprotocol/sdk') {
+        return pkg.version;
+      }
+    }
+    dir = path.dirname(dir);
+  }
+}
+
+const record: SessionRecord = {
+  sessionId: 'session-1',
+  createdAt: new Date().toISOString(),
+  initializeParams: {
+    protocolVersion: '2025-11-25',
+    capabilities: { elicitation: { form: {} } },
+    clientInfo: { name: 'test-client', version: '1.0.0' },
+  },
+};
+
+describe('restoreInitializedState', () => {
+  it('should target the installed SDK version', () => {
+    expect(installedSdkVersion()).toBe(RESTORE_SDK_VERSION);
+  });
+
+  it('should restore the session ID and client handshake', async () => {
+    const server = new McpServer({ name: 'test', version: '1.0.0' });
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => record.sessionId,
+    });
+    await server.connect(transport);
+
+    restoreInitializedState(server, transport, record);
+
+    expect(transport.sessionId).toBe('session-1');
+    expect(server.server.getClientCapabilities()).toEqual({
+      elicitation: { form: {} },
+    });
+    expect(server.server.getClientVersion()).toEqual({
+      name: 'test-client',
+      version: '1.0.0',
+    });
+
+    await server.close();
+  });
+
+  it('should let the restored transport accept session requests', async () => {
+    const server = new McpServer({ name: 'test', version: '1.0.0' });
+    server.registerTool('ping', {}, async () => ({ content: [] }));
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => record.sessionId,
+      enableJsonResponse: true,
+    });
+    await server.connect(transport);
+    restoreInitializedState(server, transport, record);
+
+    const httpServer = createServer((req, res) => {
+      void transport.handleRequest(req, res);
+    });
+    await new Promise<void>((resolve) => httpServer.listen(0, resolve));
+    const { port } = httpServer.address() as AddressInfo;
+
+    try {
+      const response = await fetch(`http://127.0.0.1:${port}/mcp`, {
+        method: 'POST',
+        headers: {
+          'content-type': 'application/json',
+          accept: 'application/json, text/event-stream',
+          'mcp-protocol-version': record.initializeParams.protocolVersion,
+          'mcp-session-id': record.sessionId,
+        },
+        body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' }),
+      });
+
+      expect(response.status).toBe(200);
+      expect(await response.json()).toMatchObject({
+        result: { tools: [{ name: 'ping' }] },
+      });
+    } finally {
+      await server.close();
+      httpServer.close();
+    }
+  });
+});
@@ -0,0 +1,156 @@
+import { afterEach, beforeEach, describe, it, expect, vi } from 'vitest';
+import pino from 'pino';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import {
+  SessionManager,
+  type SessionLifecycleEvent,
+} from '../src/utils/session.js';
+
+const MINUTE = 60_000;
+const limits = { idleTimeout: 30 * MINUTE, maxAge: 24 * 60 * MINUTE };
+
+function createSession(
+  manager: SessionManager,
+  sessionId: string,
+  identity?: string
+) {
+  const server = { close: vi.fn().mockResolvedValue(undefined) };
+  const transport = { close: vi.fn().mockResolvedValue(undefined) };
+  manager.create(
+    sessionId,
+    server as unknown as McpServer,
+    transport as unknown as StreamableHTTPServerTransport,
+    { identity }
+  );
+  return { server, transport };
+}
+
+describe('SessionManager', () => {
+  let manager: SessionManager;
+  let events: SessionLifecycleEvent[];
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2025-01-01T00:00:00Z'));
+    manager = new SessionManager(pino({ level: 'silent' }));
+    events = [];
+    manager.on('lifecycle', (event) => events.push(event));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('cleanup', () => {
+    it('should keep sessions within the idle timeout', async () => {
+      createSession(manager, 'a');
+      vi.advanceTimersByTime(29 * MINUTE);
+
+      expect(await manager.cleanup(limits)).toBe(0);
+      expect(manager.get('a')).toBeDefined();
+    });
+
+    it('should expire idle sessions and close their transport and server', async () => {
+      const { server, transport } = createSession(manager, 'a');
+      vi.advanceTimersByTime(31 * MINUTE);
+
+      expect(await manager.cleanup(limits)).toBe(1);
+      expect(manager.get('a')).toBeUndefined();
+      expect(transport.close).toHaveBeenCalledOnce();
+      expect(server.close).toHaveBeenCalledOnce();
+    });
+
+    it('should not expire active sessions older than the idle timeout', async () => {
+      createSession(manager, 'a');
+
+      for (let i = 0; i < 6; i++) {
+        vi.advanceTimersByTime(20 * MINUTE);
+        manager.touch('a');
+      }
+
+      expect(await manager.cleanup(limits)).toBe(0);
+      expect(manager.get('a')).toBeDefined();
+    });
+
+    it('should expire active sessions past the maximum age', async () => {
+      createSession(manager, 'a');
+
+      for (let i = 0; i < 25; i++) {
+        vi.advanceTimersByTime(60 * MINUTE);
+        manager.touch('a');
+      }
+
+      expect(await manager.cleanup(limits)).toBe(1);
+      expect(events.at(-1)).toMatchObject({
+        type: 'expired',
+        sessionId: 'a',
+        reason: 'max-age',
+      });
+    });
+
+    it('should emit an expired event with age and idle time', async () => {
+      createSession(manager, 'a');
+      vi.advanceTimersByTime(10 * MINUTE);
+      manager.touch('a');
+      vi.advanceTimersByTime(31 * MINUTE);
+
+      await manager.cleanup(limits);
+
+      expect(events.map((event) => event.type)).toEqual(['created', 'expired']);
+      expect(events[1]).toEqual({
+        type: 'expired',
+        sessionId: 'a',
+        reason: 'idle',
+        ageMs: 41 * MINUTE,
+        idleMs: 31 * MINUTE,
+      });
+    });
+
+    it('should keep cleaning up when a transport fails to close', async () => {
+      const { transport } = createSession(manager, 'a');
+      const { server: serverB } = createSession(manager, 'b');
+      transport.close.mockRejectedValue(new Error('boom'));
+      vi.advanceTimersByTime(31 * MINUTE);
+
+      expect(await manager.cleanup(limits)).toBe(2);
+      expect(serverB.close).toHaveBeenCalledOnce();
+      expect(manager.count()).toBe(0);
+    });
+  });
+
+  it('should report sessions deleted after their transport closed', () => {
+    createSession(manager, 'a');
+
+    expect(manager.delete('a')).toBe(true);
+    expect(manager.delete('a')).toBe(false);
+    expect(events.at(-1)).toMatchObject({
+      type: 'closed',
+      reason: 'transport-closed',
+    });
+  });
+
+  it('should count sessions per client identity', () => {
+    createSession(manager, 'a', 'alice');
+    createSession(manager, 'b', 'alice');
+    createSession(manager, 'c', 'bob');
+
+    expect(manager.count()).toBe(3);
+    expect(manager.count('alice')).toBe(2);
+    expect(manager.count('carol')).toBe(0);
+  });
+
+  it('should close every session on closeAll', async () => {
+    const a = createSession(manager, 'a');
+    const b = createSession(manager, 'b');
+
+    await manager.closeAll();
+
+    expect(manager.count()).toBe(0);
+    expect(a.transport.close).toHaveBeenCalledOnce();
+    expect(b.server.close).toHaveBeenCalledOnce();
+    expect(events.filter((event) => event.reason === 'shutdown')).toHaveLength(
+      2
+    );
+  });
+});
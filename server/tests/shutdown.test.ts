@@ -0,0 +1,186 @@
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { afterEach, describe, it, expect, vi } from 'vitest';
+import express from 'express';
+import pino from 'pino';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { MemoryEventStore } from '../src/utils/event-store.js';
+import { createMcpHandler } from '../src/utils/mcp-handler.js';
+import { SessionManager } from '../src/utils/session.js';
+import { GracefulShutdown } from '../src/utils/shutdown.js';
+
+const logger = pino({ level: 'silent' });
+const PROTOCOL_VERSION = '2025-11-25';
+
+/**
+ * Server with a `slow` tool that only answers once `release()` is called
+ */
+async function startServer() {
+  const sessionManager = new SessionManager(logger);
+  const gracefulShutdown = new GracefulShutdown(logger);
+  const started = vi.fn();
+  let release = () => {};
+  const released = new Promise<void>((resolve) => {
+    release = resolve;
+  });
+
+  const app = express();
+  app.use(express.json());
+  app.all(
+    '/mcp',
+    gracefulShutdown.middleware(),
+    createMcpHandler({
+      logger,
+      sessionManager,
+      eventStore: new MemoryEventStore(logger, {
+        maxEventsPerSession: 100,
+        ttl: 60_000,
+      }),
+      sessionMaxAge: 60_000,
+      async createServer() {
+        const server = new McpServer({ name: 'test', version: '1.0.0' });
+        server.registerTool('slow', {}, async () => {
+          started();
+          await released;
+          return { content: [{ type: 'text', text: 'done' }] };
+        });
+        return server;
+      },
+    })
+  );
+
+  const httpServer: Server = createServer(app);
+  await new Promise<void>((resolve) => httpServer.listen(0, resolve));
+  const { port } = httpServer.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}/mcp`,
+    httpServer,
+    sessionManager,
+    gracefulShutdown,
+    started,
+    release,
+  };
+}
+
+async function connect(url: string) {
+  const client = new Client({ name: 'test-client', version: '1.0.0' });
+  await client.connect(new StreamableHTTPClientTransport(new URL(url)));
+  return client;
+}
+
+function initialize(url: string) {
+  return fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Accept: 'application/json, text/event-stream',
+    },
+    body: JSON.stringify({
+      jsonrpc: '2.0',
+      id: 1,
+      method: 'initialize',
+      params: {
+        protocolVersion: PROTOCOL_VERSION,
+        capabilities: {},
+        clientInfo: { name: 'late-client', version: '1.0.0' },
+      },
+    }),
+  });
+}
+
+describe('GracefulShutdown', () => {
+  let server: Awaited<ReturnType<typeof startServer>> | undefined;
+
+  afterEach(() => {
+    server?.release();
+    if (server?.httpServer.listening) {
+      server.httpServer.closeAllConnections();
+      server.httpServer.close();
+    }
+    server = undefined;
+  });
+
+  it('should let an in-flight tool call finish before closing', async () => {
+    server = await startServer();
+    const { url, httpServer, sessionManager, gracefulShutdown } = server;
+    const client = await connect(url);
+
+    const call = client.callTool({ name: 'slow', arguments: {} });
+    await vi.waitFor(() => expect(server?.started).toHaveBeenCalled());
+
+    const shutdown = gracefulShutdown.shutdown({
+      timeout: 5000,
+      httpServer,
+      sessionManager,
+    });
+
+    expect(gracefulShutdown.status()).toMatchObject({
+      phase: 'draining',
+      inFlightRequests: 1,
+    });
+
+    const rejected = await initialize(url);
+    expect(rejected.status).toBe(503);
+    expect(await rejected.json()).toMatchObject({
+      error: { message: 'Server is shutting down' },
+    });
+
+    server.release();
+
+    expect(await call).toEqual({
+      content: [{ type: 'text', text: 'done' }],
+    });
+    await shutdown;
+
+    expect(gracefulShutdown.status()).toMatchObject({
+      phase: 'stopped',
+      inFlightRequests: 0,
+    });
+    expect(sessionManager.count()).toBe(0);
+    expect(httpServer.listening).toBe(false);
+  });
+
+  it('should close requests still running after the timeout', async () => {
+    server = await startServer();
+    const { url, httpServer, sessionManager, gracefulShutdown } = server;
+    const client = await connect(url);
+
+    const call = client.callTool({ name: 'slow', arguments: {} });
+    call.catch(() => {});
+    await vi.waitFor(() => expect(server?.started).toHaveBeenCalled());
+
+    const startedAt = Date.now();
+    await gracefulShutdown.shutdown({
+      timeout: 100,
+      httpServer,
+      sessionManager,
+    });
+
+    expect(Date.now() - startedAt).toBeLessThan(2000);
+    expect(gracefulShutdown.status()).toMatchObject({
+      phase: 'stopped',
+      inFlightRequests: 0,
+    });
+    expect(sessionManager.count()).toBe(0);
+    expect(httpServer.listening).toBe(false);
+  });
+
+  it('should finish immediately with nothing in flight', async () => {
+    server = await startServer();
+    const { httpServer, sessionManager, gracefulShutdown } = server;
+    const cleanup = vi.fn(async () => {});
+
+    await gracefulShutdown.shutdown({
+      timeout: 5000,
+      httpServer,
+      sessionManager,
+      cleanup,
+    });
+
+    expect(cleanup).toHaveBeenCalledOnce();
+    expect(gracefulShutdown.status().phase).toBe('stopped');
+  });
+});
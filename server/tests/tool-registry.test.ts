@@ -0,0 +1,450 @@
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { describe, it, expect, vi } from 'vitest';
+import pino from 'pino';
+import { z } from 'zod';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import {
+  defineTool,
+  loadTools,
+  registerTools,
+  type ToolDefinition,
+} from '../src/utils/tool-registry.js';
+import { ToolCallLimiter } from '../src/utils/rate-limit.js';
+import type { WidgetDescriptor } from '../src/types.js';
+import { connectClient } from './helpers.js';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const TOOLS_DIR = path.resolve(__dirname, '..', 'src', 'tools');
+const logger = pino({ level: 'silent' });
+
+const GREET_WIDGET: WidgetDescriptor = {
+  id: 'greet',
+  title: 'Greet',
+  uri: 'ui://greet',
+  html: 'greet.html',
+  js: null,
+  css: null,
+};
+
+async function connect(
+  tools: ToolDefinition[],
+  canRenderUi = true,
+  widgets = [GREET_WIDGET],
+  limiter?: ToolCallLimiter
+) {
+  const server = new McpServer({ name: 'test', version: '1.0.0' });
+  registerTools(server, tools, {
+    sessionId: 'test',
+    logger,
+    canRenderUi,
+    widgets,
+    limiter,
+  });
+
+  return connectClient(server);
+}
+
+describe('Tool registry', () => {
+  describe('loadTools', () => {
+    it('should discover tool modules in src/tools', async () => {
+      const tools = await loadTools(TOOLS_DIR, logger);
+
+      expect(tools.map((tool) => tool.name)).toContain('echo');
+    });
+
+    it('should return no tools for a missing directory', async () => {
+      const tools = await loadTools(path.join(TOOLS_DIR, 'missing'), logger);
+
+      expect(tools).toEqual([]);
+    });
+  });
+
+  describe('registerTools', () => {
+    const greet = defineTool({
+      name: 'greet',
+      description: 'Greets someone',
+      inputSchema: z.object({ name: z.string() }),
+      widget: 'greet',
+      async handler({ name }) {
+        return {
+          content: [{ type: 'text', text: `Hello, ${name}` }],
+          structuredContent: { greeting: `Hello, ${name}` },
+        };
+      },
+    });
+
+    const clock = defineTool({
+      name: 'clock',
+      description: 'Tells the time',
+      inputSchema: z.object({ valid: z.boolean() }),
+      outputSchema: z.object({ time: z.iso.datetime() }),
+      widget: 'greet',
+      async handler({ valid }) {
+        return {
+          content: [{ type: 'text', text: 'Tick' }],
+          structuredContent: {
+            time: valid ? new Date().toISOString() : 'noon',
+          },
+        };
+      },
+    });
+
+    const weather = defineTool({
+      name: 'weather',
+      description: 'Reports the weather',
+      inputSchema: z.object({ city: z.string() }),
+      outputSchema: z.object({ city: z.string(), celsius: z.number() }),
+      widget: 'greet',
+      renderText: ({ city, celsius }) => `**${city}**: ${celsius} °C`,
+      async handler({ city }) {
+        return {
+          content: [{ type: 'text', text: 'Showing the forecast' }],
+          structuredContent: { city, celsius: 21 },
+        };
+      },
+    });
+
+    const countdown = defineTool({
+      name: 'countdown',
+      description: 'Counts down until cancelled',
+      inputSchema: z.object({ steps: z.number() }),
+      async handler({ steps }, { progressToken, signal, reportProgress }) {
+        for (let step = 1; step <= steps; step++) {
+          await reportProgress({ progress: step, total: steps });
+        }
+        await new Promise((resolve, reject) => {
+          if (steps > 0) {
+            resolve(undefined);
+            return;
+          }
+          signal.addEventListener('abort', () => reject(signal.reason));
+        });
+        return {
+          content: [{ type: 'text', text: `Token: ${progressToken}` }],
+        };
+      },
+    });
+
+    const broken = defineTool({
+      name: 'broken',
+      description: 'Always throws',
+      inputSchema: z.object({}),
+      async handler() {
+        throw new Error('Something went wrong');
+      },
+    });
+
+    it('should register every tool with UI metadata', async () => {
+      const client = await connect([greet, broken]);
+      const { tools } = await client.listTools();
+
+      expect(tools.map((tool) => tool.name)).toEqual(['greet', 'broken']);
+      expect(tools[0]._meta).toMatchObject({
+        ui: { resourceUri: 'ui://greet' },
+      });
+    });
+
+    it('should return handler output', async () => {
+      const client = await connect([greet]);
+      const result = await client.callTool({
+        name: 'greet',
+        arguments: { name: 'Ada' },
+      });
+
+      expect(result.content).toEqual([{ type: 'text', text: 'Hello, Ada' }]);
+      expect(result.structuredContent).toEqual({ greeting: 'Hello, Ada' });
+    });
+
+    it('should omit UI metadata and structured content for text-only hosts', async () => {
+      const client = await connect([greet], false);
+      const { tools } = await client.listTools();
+      const result = await client.callTool({
+        name: 'greet',
+        arguments: { name: 'Ada' },
+      });
+
+      expect(tools[0]._meta).toEqual({});
+      expect(result.structuredContent).toBeUndefined();
+    });
+
+    it('should keep handler content for hosts that render the widget', async () => {
+      const client = await connect([weather]);
+      const { tools } = await client.listTools();
+      const result = await client.callTool({
+        name: 'weather',
+        arguments: { city: 'Oslo' },
+      });
+
+      expect(tools[0]._meta).toMatchObject({
+        ui: { resourceUri: 'ui://greet' },
+      });
+      expect(result.content).toEqual([
+        { type: 'text', text: 'Showing the forecast' },
+      ]);
+      expect(result.structuredContent).toEqual({ city: 'Oslo', celsius: 21 });
+    });
+
+    it('should render text fallbacks for text-only hosts', async () => {
+      const client = await connect([weather], false);
+      const { tools } = await client.listTools();
+      const result = await client.callTool({
+        name: 'weather',
+        arguments: { city: 'Oslo' },
+      });
+
+      expect(tools[0]._meta).toEqual({});
+      expect(result.content).toEqual([
+        { type: 'text', text: '**Oslo**: 21 °C' },
+      ]);
+      expect(result.structuredContent).toEqual({ city: 'Oslo', celsius: 21 });
+    });
+
+    it('should render text fallbacks when the widget is not in the manifest', async () => {
+      const client = await connect([weather], true, []);
+      const result = await client.callTool({
+        name: 'weather',
+        arguments: { city: 'Oslo' },
+      });
+
+      expect(result.content).toEqual([
+        { type: 'text', text: '**Oslo**: 21 °C' },
+      ]);
+    });
+
+    it('should omit UI metadata when the widget is not in the manifest', async () => {
+      const client = await connect([greet], true, []);
+      const { tools } = await client.listTools();
+
+      expect(tools[0]._meta).toEqual({});
+    });
+
+    describe('visibility', () => {
+      const withVisibility = (visibility?: Array<'model' | 'app'>) =>
+        defineTool({ ...greet, visibility });
+
+      it.each([
+        { visibility: undefined, ui: { resourceUri: 'ui://greet' } },
+        {
+          visibility: ['model', 'app'] as const,
+          ui: { resourceUri: 'ui://greet', visibility: ['model', 'app'] },
+        },
+        {
+          visibility: ['model'] as const,
+          ui: { resourceUri: 'ui://greet', visibility: ['model'] },
+        },
+        {
+          visibility: ['app'] as const,
+          ui: { resourceUri: 'ui://greet', visibility: ['app'] },
+        },
+      ])(
+        'should advertise $visibility visibility to hosts with UI support',
+        async ({ visibility, ui }) => {
+          const client = await connect([
+            withVisibility(visibility && [...visibility]),
+          ]);
+          const { tools } = await client.listTools();
+          const result = await client.callTool({
+            name: 'greet',
+            arguments: { name: 'Ada' },
+          });
+
+          expect(tools[0]._meta?.ui).toEqual(ui);
+          expect(result.isError).toBeFalsy();
+        }
+      );
+
+      it.each([undefined, ['model', 'app'] as const, ['model'] as const])(
+        'should register %j tools for text-only hosts without UI metadata',
+        async (visibility) => {
+          const client = await connect(
+            [withVisibility(visibility && [...visibility])],
+            false
+          );
+          const { tools } = await client.listTools();
+
+          expect(tools.map(({ name }) => name)).toEqual(['greet']);
+          expect(tools[0]._meta).toEqual({});
+        }
+      );
+
+      it('should hide app-only tools from text-only hosts', async () => {
+        const client = await connect([withVisibility(['app']), broken], false);
+        const { tools } = await client.listTools();
+        const result = await client.callTool({
+          name: 'greet',
+          arguments: { name: 'Ada' },
+        });
+
+        expect(tools.map(({ name }) => name)).toEqual(['broken']);
+        expect(result.isError).toBe(true);
+      });
+
+      it('should leave hiding app-only tools from the model to UI hosts', async () => {
+        const client = await connect([withVisibility(['app'])]);
+        const { tools } = await client.listTools();
+        // Widget and model calls both arrive from the host as tools/call
+        const result = await client.callTool({
+          name: 'greet',
+          arguments: { name: 'Ada' },
+        });
+
+        expect(tools.map(({ name }) => name)).toEqual(['greet']);
+        expect(tools[0]._meta?.ui).toMatchObject({ visibility: ['app'] });
+        expect(result.isError).toBeFalsy();
+      });
+
+      it('should keep visibility without a widget', async () => {
+        const client = await connect([withVisibility(['app'])], true, []);
+        const { tools } = await client.listTools();
+
+        expect(tools[0]._meta).toEqual({ ui: { visibility: ['app'] } });
+      });
+    });
+
+    it('should advertise output schemas', async () => {
+      const client = await connect([clock]);
+      const { tools } = await client.listTools();
+
+      expect(tools[0].outputSchema).toMatchObject({
+        type: 'object',
+        properties: { time: { type: 'string', format: 'date-time' } },
+        required: ['time'],
+      });
+    });
+
+    it('should return structured content matching the output schema', async () => {
+      const client = await connect([clock], false);
+      const result = await client.callTool({
+        name: 'clock',
+        arguments: { valid: true },
+      });
+
+      expect(result.isError).toBeFalsy();
+      expect(result.structuredContent).toHaveProperty('time');
+    });
+
+    it('should reject structured content that does not match the output schema', async () => {
+      const client = await connect([clock]);
+      const result = await client.callTool({
+        name: 'clock',
+        arguments: { valid: false },
+      });
+
+      expect(result.isError).toBe(true);
+      expect(result.structuredContent).toBeUndefined();
+      expect(result.content).toEqual([
+        {
+          type: 'text',
+          text: expect.stringContaining(
+            '- time: Invalid ISO datetime (received "noon")'
+          ),
+        },
+      ]);
+    });
+
+    it('should wrap handler errors as isError results', async () => {
+      const client = await connect([broken]);
+      const result = await client.callTool({ name: 'broken', arguments: {} });
+
+      expect(result.isError).toBe(true);
+      expect(result.content).toEqual([
+        { type: 'text', text: 'Error: Something went wrong' },
+      ]);
+    });
+
+    it('should return rate limit rejections as isError results with a retry hint', async () => {
+      const limiter = new ToolCallLimiter(logger, {
+        toolCallsPerMinute: 0,
+        maxConcurrentToolCalls: 1,
+      });
+      const slot = limiter.acquire('other-session', 'greet');
+      const client = await connect([greet], true, [GREET_WIDGET], limiter);
+
+      const rejected = await client.callTool({
+        name: 'greet',
+        arguments: { name: 'Ada' },
+      });
+      if (slot.allowed) {
+        slot.release();
+      }
+      const allowed = await client.callTool({
+        name: 'greet',
+        arguments: { name: 'Ada' },
+      });
+
+      expect(rejected.isError).toBe(true);
+      expect(rejected.content).toEqual([
+        {
+          type: 'text',
+          text: 'Error: Server busy: 1 tool calls already in progress. Retry after 1 seconds.',
+        },
+      ]);
+      expect(rejected._meta).toEqual({ retryAfterMs: 1000 });
+      expect(allowed.isError).toBeFalsy();
+      expect(limiter.activeCalls()).toBe(0);
+    });
+
+    it('should send progress notifications for the request', async () => {
+      const client = await connect([countdown]);
+      const onprogress = vi.fn();
+
+      const result = await client.callTool(
+        { name: 'countdown', arguments: { steps: 2 } },
+        undefined,
+        { onprogress }
+      );
+
+      expect(onprogress.mock.calls).toEqual([
+        [{ progress: 1, total: 2 }],
+        [{ progress: 2, total: 2 }],
+      ]);
+      expect(result.content).toEqual([
+        { type: 'text', text: expect.stringMatching(/^Token: \d+$/) },
+      ]);
+    });
+
+    it('should skip progress when the client did not ask for it', async () => {
+      const client = await connect([countdown]);
+
+      const result = await client.callTool({
+        name: 'countdown',
+        arguments: { steps: 2 },
+      });
+
+      expect(result.content).toEqual([
+        { type: 'text', text: 'Token: undefined' },
+      ]);
+    });
+
+    it('should abort the handler and release its slot when cancelled', async () => {
+      const limiter = new ToolCallLimiter(logger, {
+        toolCallsPerMinute: 0,
+        maxConcurrentToolCalls: 1,
+      });
+      const client = await connect([countdown], true, [], limiter);
+      const controller = new AbortController();
+
+      const call = client.callTool(
+        { name: 'countdown', arguments: { steps: 0 } },
+        undefined,
+        { signal: controller.signal }
+      );
+      await vi.waitFor(() => expect(limiter.activeCalls()).toBe(1));
+      controller.abort('Changed my mind');
+
+      await expect(call).rejects.toThrow('Changed my mind');
+      await vi.waitFor(() => expect(limiter.activeCalls()).toBe(0));
+    });
+
+    it('should reject invalid input', async () => {
+      const client = await connect([greet]);
+      const result = await client.callTool({
+        name: 'greet',
+        arguments: { name: 42 },
+      });
+
+      expect(result.isError).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,203 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { afterAll, beforeAll, describe, it, expect, vi } from 'vitest';
+import express from 'express';
+import pino from 'pino';
+import { z } from 'zod';
+import { context, propagation, trace } from '@opentelemetry/api';
+import type { NodeTracerProvider } from '@opentelemetry/sdk-trace-node';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { MemoryEventStore } from '../src/utils/event-store.js';
+import { createMcpHandler } from '../src/utils/mcp-handler.js';
+import { SessionManager } from '../src/utils/session.js';
+import { defineTool, registerTools } from '../src/utils/tool-registry.js';
+import {
+  initTracing,
+  traceLogFields,
+  traceRequest,
+  withSpan,
+} from '../src/utils/tracing.js';
+
+const TRACE_ID = '4bf92f3577b34da6a3ce929d0e0e4736';
+const TRACEPARENT = `00-${TRACE_ID}-00f067aa0ba902b7-01`;
+
+interface ExportedSpan {
+  traceId: string;
+  spanId: string;
+  parentSpanId?: string;
+  name: string;
+  attributes: Record<string, unknown>;
+  status: { code: number };
+  links: Array<{ traceId: string; spanId: string }>;
+}
+
+const logLines: Array<Record<string, unknown>> = [];
+const logger = pino(
+  { level: 'info', mixin: traceLogFields },
+  { write: (line: string) => logLines.push(JSON.parse(line)) }
+);
+
+const shout = defineTool({
+  name: 'shout',
+  description: 'Uppercases a message',
+  inputSchema: z.object({ message: z.string() }),
+  async handler({ message }, { logger: toolLogger }) {
+    toolLogger.info('Shouting');
+    return { content: [{ type: 'text', text: message.toUpperCase() }] };
+  },
+});
+
+describe('Tracing', () => {
+  let tempDir: string;
+  let filePath: string;
+  let provider: NodeTracerProvider;
+  let httpServer: Server;
+  let baseUrl: string;
+
+  function readSpans(): ExportedSpan[] {
+    if (!fs.existsSync(filePath)) {
+      return [];
+    }
+    return fs
+      .readFileSync(filePath, 'utf-8')
+      .trim()
+      .split('\n')
+      .map((line) => JSON.parse(line));
+  }
+
+  beforeAll(async () => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'tracing-'));
+    filePath = path.join(tempDir, 'traces.jsonl');
+    provider = initTracing(logger, {
+      serviceName: 'test',
+      exporter: 'file',
+      filePath,
+    });
+
+    const app = express();
+    app.use(express.json());
+    app.all(
+      '/mcp',
+      traceRequest,
+      createMcpHandler({
+        logger,
+        sessionManager: new SessionManager(logger),
+        eventStore: new MemoryEventStore(logger, {
+          maxEventsPerSession: 100,
+          ttl: 60_000,
+        }),
+        sessionMaxAge: 60_000,
+        async createServer(sessionId) {
+          const server = new McpServer({ name: 'test', version: '1.0.0' });
+          registerTools(server, [shout], {
+            sessionId,
+            logger,
+            canRenderUi: false,
+            widgets: [],
+          });
+          return server;
+        },
+      })
+    );
+
+    httpServer = createServer(app);
+    await new Promise<void>((resolve) => httpServer.listen(0, resolve));
+    baseUrl = `http://127.0.0.1:${(httpServer.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    httpServer.closeAllConnections();
+    await new Promise((resolve) => httpServer.close(resolve));
+    await provider.shutdown();
+    trace.disable();
+    context.disable();
+    propagation.disable();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should continue a traceparent from tool call _meta down to the handler', async () => {
+    const client = new Client({ name: 'test-client', version: '1.0.0' });
+    await client.connect(
+      new StreamableHTTPClientTransport(new URL(`${baseUrl}/mcp`))
+    );
+
+    await client.callTool({
+      name: 'shout',
+      arguments: { message: 'hi' },
+      _meta: { traceparent: TRACEPARENT },
+    });
+    await client.close();
+
+    await vi.waitFor(() => {
+      expect(
+        readSpans().filter(({ name }) => name === 'POST /mcp')
+      ).not.toEqual([]);
+    });
+
+    const spans = readSpans();
+    const rpcSpan = spans.find(({ name }) => name === 'mcp tools/call');
+    const toolSpan = spans.find(({ name }) => name === 'tool shout');
+
+    expect(rpcSpan).toMatchObject({
+      traceId: TRACE_ID,
+      parentSpanId: '00f067aa0ba902b7',
+      attributes: { 'rpc.method': 'tools/call' },
+    });
+    expect(toolSpan).toMatchObject({
+      traceId: TRACE_ID,
+      parentSpanId: rpcSpan?.spanId,
+      attributes: { 'mcp.tool.name': 'shout' },
+    });
+
+    const httpSpanIds = spans
+      .filter(({ name }) => name === 'POST /mcp')
+      .map(({ spanId }) => spanId);
+    expect(httpSpanIds).toContain(rpcSpan?.links[0]?.spanId);
+
+    expect(logLines.find(({ msg }) => msg === 'Shouting')).toMatchObject({
+      traceId: TRACE_ID,
+      spanId: toolSpan?.spanId,
+      toolName: 'shout',
+    });
+  });
+
+  it('should nest JSON-RPC spans under the HTTP request without _meta', async () => {
+    const client = new Client({ name: 'test-client', version: '1.0.0' });
+    await client.connect(
+      new StreamableHTTPClientTransport(new URL(`${baseUrl}/mcp`))
+    );
+    await client.listTools();
+    await client.close();
+
+    await vi.waitFor(() => {
+      const spans = readSpans();
+      const rpcSpan = spans.find(({ name }) => name === 'mcp tools/list');
+      const parent = spans.find(
+        ({ spanId }) => spanId === rpcSpan?.parentSpanId
+      );
+
+      expect(parent?.name).toBe('POST /mcp');
+      expect(rpcSpan?.links).toEqual([]);
+    });
+  });
+
+  it('should record errors thrown inside withSpan', async () => {
+    await expect(
+      withSpan('widget read', { 'mcp.widget.id': 'echo' }, async () => {
+        throw new Error('Widget not found');
+      })
+    ).rejects.toThrow('Widget not found');
+
+    const span = readSpans().find(({ name }) => name === 'widget read');
+
+    expect(span).toMatchObject({
+      attributes: { 'mcp.widget.id': 'echo' },
+      status: { code: 2 },
+    });
+  });
+});
@@ -0,0 +1,182 @@
+import { createServer, type IncomingHttpHeaders, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { afterAll, beforeAll, beforeEach, describe, it, expect } from 'vitest';
+import pino from 'pino';
+import { WidgetHtmlLoader } from '../src/utils/widget-html-loader.js';
+
+const logger = pino({ level: 'silent' });
+const LAST_MODIFIED = 'Wed, 01 Jan 2025 00:00:00 GMT';
+
+/** Stand-in for a CDN serving `<widget>.html` */
+const origin = {
+  html: '<html>v1</html>',
+  etag: '"v1"' as string | undefined,
+  status: 200,
+  delayMs: 0,
+  requests: [] as Array<{ url?: string; headers: IncomingHttpHeaders }>,
+};
+
+describe('WidgetHtmlLoader', () => {
+  let httpServer: Server;
+  let baseUrl: string;
+
+  function createLoader(
+    options: { maxAge?: number; timeout?: number; inline?: boolean } = {}
+  ) {
+    return new WidgetHtmlLoader(logger, {
+      baseUrl,
+      maxAge: options.maxAge ?? 60_000,
+      timeout: options.timeout ?? 1000,
+      inline: options.inline,
+    });
+  }
+
+  beforeAll(async () => {
+    httpServer = createServer((req, res) => {
+      origin.requests.push({ url: req.url, headers: req.headers });
+
+      setTimeout(() => {
+        if (origin.status !== 200) {
+          res.writeHead(origin.status).end();
+          return;
+        }
+        if (
+          (origin.etag && req.headers['if-none-match'] === origin.etag) ||
+          (!origin.etag && req.headers['if-modified-since'] === LAST_MODIFIED)
+        ) {
+          res.writeHead(304).end();
+          return;
+        }
+        res
+          .writeHead(200, {
+            'content-type': 'text/html',
+            'last-modified': LAST_MODIFIED,
+            ...(origin.etag ? { etag: origin.etag } : {}),
+          })
+          .end(origin.html);
+      }, origin.delayMs);
+    });
+    await new Promise<void>((resolve) => httpServer.listen(0, resolve));
+    baseUrl = `http://127.0.0.1:${(httpServer.address() as AddressInfo).port}/assets/`;
+  });
+
+  afterAll(async () => {
+    httpServer.closeAllConnections();
+    await new Promise((resolve) => httpServer.close(resolve));
+  });
+
+  beforeEach(() => {
+    Object.assign(origin, {
+      html: '<html>v1</html>',
+      etag: '"v1"',
+      status: 200,
+      delayMs: 0,
+      requests: [],
+    });
+  });
+
+  it('should fetch on a miss and serve fresh copies from the cache', async () => {
+    const loader = createLoader();
+
+    expect(await loader.load('echo')).toEqual({
+      html: '<html>v1</html>',
+      cache: 'miss',
+    });
+    expect(await loader.load('echo')).toEqual({
+      html: '<html>v1</html>',
+      cache: 'fresh',
+    });
+    expect(origin.requests.map(({ url }) => url)).toEqual([
+      '/assets/echo.html',
+    ]);
+  });
+
+  it('should fetch the prebuilt inline HTML when inline is set', async () => {
+    const loader = createLoader({ inline: true });
+
+    await loader.load('echo');
+
+    expect(origin.requests.map(({ url }) => url)).toEqual([
+      '/assets/echo.inline.html',
+    ]);
+  });
+
+  it('should serve stale copies and revalidate with If-None-Match', async () => {
+    const loader = createLoader({ maxAge: 0 });
+    await loader.load('echo');
+
+    expect(await loader.load('echo')).toEqual({
+      html: '<html>v1</html>',
+      cache: 'stale',
+    });
+    await loader.settled();
+
+    expect(origin.requests).toHaveLength(2);
+    expect(origin.requests[1].headers).toMatchObject({
+      'if-none-match': '"v1"',
+      'if-modified-since': LAST_MODIFIED,
+    });
+  });
+
+  it('should revalidate with If-Modified-Since when there is no ETag', async () => {
+    origin.etag = undefined;
+    const loader = createLoader({ maxAge: 0 });
+    await loader.load('echo');
+    origin.html = '<html>ignored, not modified</html>';
+
+    await loader.load('echo');
+    await loader.settled();
+
+    expect(origin.requests[1].headers['if-none-match']).toBeUndefined();
+    expect((await loader.load('echo')).html).toBe('<html>v1</html>');
+  });
+
+  it('should pick up new HTML after revalidation', async () => {
+    const loader = createLoader({ maxAge: 0 });
+    await loader.load('echo');
+    Object.assign(origin, { html: '<html>v2</html>', etag: '"v2"' });
+
+    expect((await loader.load('echo')).html).toBe('<html>v1</html>');
+    await loader.settled();
+
+    expect((await loader.load('echo')).html).toBe('<html>v2</html>');
+  });
+
+  it('should keep serving the last good copy while the origin is down', async () => {
+    const loader = createLoader({ maxAge: 0 });
+    await loader.load('echo');
+    origin.status = 503;
+
+    for (let i = 0; i < 3; i++) {
+      expect(await loader.load('echo')).toEqual({
+        html: '<html>v1</html>',
+        cache: 'stale',
+      });
+      await loader.settled();
+    }
+
+    await expect(loader.load('other')).rejects.toThrow(
+      /Failed to fetch widget HTML from .*other\.html: 503/
+    );
+  });
+
+  it('should time out slow origins', async () => {
+    const loader = createLoader({ timeout: 50 });
+    origin.delayMs = 500;
+
+    await expect(loader.load('echo')).rejects.toThrow(/timeout/i);
+  });
+
+  it('should refetch after a purge', async () => {
+    const loader = createLoader();
+    await loader.load('echo');
+    await loader.load('other');
+
+    loader.purge('echo');
+    expect((await loader.load('echo')).cache).toBe('miss');
+    expect((await loader.load('other')).cache).toBe('fresh');
+
+    loader.purge();
+    expect((await loader.load('other')).cache).toBe('miss');
+  });
+});
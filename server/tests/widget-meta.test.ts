@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+import { widgetResourceMeta } from '../src/utils/widget-meta.js';
+import { WidgetManifestSchema, type WidgetDescriptor } from '../src/types.js';
+
+const DEFAULT_CSP = {
+  connectDomains: [],
+  resourceDomains: ['https://cdn.example.com'],
+  frameDomains: [],
+};
+
+/** Widgets as the build writes them to the manifest */
+const manifest = WidgetManifestSchema.parse({
+  version: 1,
+  generatedAt: new Date().toISOString(),
+  widgets: [
+    { id: 'plain', title: 'Plain', html: 'plain.html', js: null, css: null },
+    {
+      id: 'map',
+      title: 'Map',
+      html: 'map.html',
+      js: null,
+      css: null,
+      csp: {
+        connectDomains: ['https://api.example.com/'],
+        resourceDomains: [
+          'https://cdn.example.com',
+          'https://*.tiles.example.com',
+        ],
+      },
+      prefersBorder: false,
+      domain: 'map-example-com.oaiusercontent.com',
+      permissions: ['geolocation', 'clipboardWrite'],
+    },
+    {
+      id: 'card',
+      title: 'Card',
+      html: 'card.html',
+      js: null,
+      css: null,
+      prefersBorder: true,
+    },
+  ],
+});
+
+const widgets: WidgetDescriptor[] = manifest.widgets.map((entry) => ({
+  ...entry,
+  uri: `ui://${entry.id}`,
+}));
+
+describe('widgetResourceMeta', () => {
+  it.each([
+    ['plain', { ui: { csp: DEFAULT_CSP } }],
+    [
+      'map',
+      {
+        ui: {
+          csp: {
+            connectDomains: ['https://api.example.com'],
+            resourceDomains: [
+              'https://cdn.example.com',
+              'https://*.tiles.example.com',
+            ],
+            frameDomains: [],
+          },
+          permissions: { geolocation: {}, clipboardWrite: {} },
+          domain: 'map-example-com.oaiusercontent.com',
+          prefersBorder: false,
+        },
+      },
+    ],
+    ['card', { ui: { csp: DEFAULT_CSP, prefersBorder: true } }],
+  ])('should emit the declared _meta for %s', (id, expected) => {
+    const widget = widgets.find((entry) => entry.id === id);
+
+    expect(widget && widgetResourceMeta(widget, DEFAULT_CSP)).toEqual(expected);
+  });
+
+  it('should omit _meta when there is nothing to declare', () => {
+    const emptyCsp = {
+      connectDomains: [],
+      resourceDomains: [],
+      frameDomains: [],
+    };
+
+    expect(widgetResourceMeta(widgets[0], emptyCsp)).toBeUndefined();
+  });
+
+  it('should reject unknown permissions in the manifest', () => {
+    const result = WidgetManifestSchema.safeParse({
+      ...manifest,
+      widgets: [{ ...manifest.widgets[0], permissions: ['bluetooth'] }],
+    });
+
+    expect(result.success).toBe(false);
+  });
+});
@@ -0,0 +1,172 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { afterEach, beforeEach, describe, it, expect } from 'vitest';
+import pino from 'pino';
+import { WidgetRegistry } from '../src/utils/widget-registry.js';
+import { WIDGET_MANIFEST_FILENAME, type WidgetManifest } from '../src/types.js';
+
+const logger = pino({ level: 'silent' });
+
+function createManifest(ids: string[]): WidgetManifest {
+  return {
+    version: 1,
+    generatedAt: new Date().toISOString(),
+    widgets: ids.map((id) => ({
+      id,
+      title: id,
+      html: `${id}.html`,
+      js: { file: `${id}-abcd1234.js`, size: 100 },
+      css: null,
+    })),
+  };
+}
+
+describe('WidgetRegistry', () => {
+  let assetsDir: string;
+
+  beforeEach(() => {
+    assetsDir = fs.mkdtempSync(path.join(os.tmpdir(), 'widget-registry-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(assetsDir, { recursive: true, force: true });
+  });
+
+  function writeManifest(data: unknown) {
+    fs.writeFileSync(
+      path.join(assetsDir, WIDGET_MANIFEST_FILENAME),
+      JSON.stringify(data)
+    );
+  }
+
+  it('should load widgets from the manifest file', async () => {
+    writeManifest(createManifest(['echo', 'chart']));
+    const registry = new WidgetRegistry(logger, { assetsDir });
+
+    const widgets = await registry.load();
+
+    expect(widgets.map((widget) => widget.uri)).toEqual([
+      'ui://echo',
+      'ui://chart',
+    ]);
+    expect(registry.get('chart')?.js?.file).toBe('chart-abcd1234.js');
+  });
+
+  it('should have no widgets when the manifest is missing', async () => {
+    const registry = new WidgetRegistry(logger, { assetsDir });
+
+    expect(await registry.load()).toEqual([]);
+  });
+
+  it('should keep the previous widgets when the manifest becomes invalid', async () => {
+    writeManifest(createManifest(['echo']));
+    const registry = new WidgetRegistry(logger, { assetsDir });
+    await registry.load();
+
+    writeManifest({ version: 2, widgets: 'nope' });
+    await registry.load();
+
+    expect(registry.get('echo')).toBeDefined();
+  });
+
+  describe('with a Vite dev server', () => {
+    let devServer: Server;
+    let devServerUrl: string;
+
+    beforeEach(async () => {
+      devServer = createServer((req, res) => {
+        if (req.url === `/${WIDGET_MANIFEST_FILENAME}`) {
+          res.setHeader('Content-Type', 'application/json');
+          res.end(JSON.stringify(createManifest(['dev-widget'])));
+          return;
+        }
+        res.statusCode = 404;
+        res.end();
+      });
+      await new Promise<void>((resolve) => devServer.listen(0, resolve));
+      const { port } = devServer.address() as AddressInfo;
+      devServerUrl = `http://localhost:${port}`;
+    });
+
+    afterEach(async () => {
+      await new Promise((resolve) => devServer.close(resolve));
+    });
+
+    it('should prefer the dev server manifest', async () => {
+      writeManifest(createManifest(['echo']));
+      const registry = new WidgetRegistry(logger, { assetsDir, devServerUrl });
+
+      const widgets = await registry.load();
+
+      expect(widgets.map((widget) => widget.id)).toEqual(['dev-widget']);
+    });
+
+    it('should fall back to the manifest file when the dev server is down', async () => {
+      writeManifest(createManifest(['echo']));
+      const registry = new WidgetRegistry(logger, {
+        assetsDir,
+        devServerUrl: 'http://localhost:1',
+      });
+
+      const widgets = await registry.load();
+
+      expect(widgets.map((widget) => widget.id)).toEqual(['echo']);
+    });
+  });
+
+  describe('with a BASE_URL', () => {
+    let widgetServer: Server;
+    let baseUrl: string;
+
+    beforeEach(async () => {
+      widgetServer = createServer((req, res) => {
+        if (req.url === `/${WIDGET_MANIFEST_FILENAME}`) {
+          res.setHeader('Content-Type', 'application/json');
+          res.end(JSON.stringify(createManifest(['cdn-widget'])));
+          return;
+        }
+        res.statusCode = 404;
+        res.end();
+      });
+      await new Promise<void>((resolve) => widgetServer.listen(0, resolve));
+      const { port } = widgetServer.address() as AddressInfo;
+      baseUrl = `http://localhost:${port}`;
+    });
+
+    afterEach(async () => {
+      await new Promise((resolve) => widgetServer.close(resolve));
+    });
+
+    it('should load the manifest from BASE_URL without local assets', async () => {
+      const registry = new WidgetRegistry(logger, {
+        assetsDir: path.join(assetsDir, 'missing'),
+        baseUrl,
+      });
+
+      const widgets = await registry.load();
+
+      expect(widgets.map((widget) => widget.uri)).toEqual(['ui://cdn-widget']);
+    });
+
+    it('should prefer the local manifest file over BASE_URL', async () => {
+      writeManifest(createManifest(['echo']));
+      const registry = new WidgetRegistry(logger, { assetsDir, baseUrl });
+
+      const widgets = await registry.load();
+
+      expect(widgets.map((widget) => widget.id)).toEqual(['echo']);
+    });
+
+    it('should have no widgets when BASE_URL has no manifest', async () => {
+      const registry = new WidgetRegistry(logger, {
+        assetsDir,
+        baseUrl: `${baseUrl}/missing/`,
+      });
+
+      expect(await registry.load()).toEqual([]);
+    });
+  });
+});
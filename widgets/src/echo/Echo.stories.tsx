@@ -138,3 +138,81 @@ export const InteractiveCallTool: Story = {
     />
   ),
 };
+
+/**
+ * Click "Slow Echo" to see progress notifications, and "Cancel" to abort
+ */
+export const SlowEchoProgress: Story = {
+  render: () => (
+    <Echo
+      app={createMockApp<EchoToolOutput>({
+        toolOutput: null,
+        callServerTool: async (params, options) => {
+          const total = Number(params.arguments?.delaySeconds ?? 0);
+          for (let elapsed = 0; elapsed < total; elapsed++) {
+            options?.onprogress?.({
+              progress: elapsed,
+              total,
+              message: `Echoing in ${total - elapsed}s`,
+            });
+            await new Promise((resolve) => setTimeout(resolve, 1000));
+            if (options?.signal?.aborted) {
+              throw new Error('Cancelled');
+            }
+          }
+          return {
+            content: [
+              { type: 'text', text: `Echoing: "${params.arguments?.message}"` },
+            ],
+            structuredContent: {
+              echoedMessage: String(params.arguments?.message),
+              timestamp: new Date().toISOString(),
+            },
+          };
+        },
+      })}
+    />
+  ),
+};
+
+/**
+ * Echo widget with a session history loaded through the echo_history tool
+ */
+export const WithHistory: Story = {
+  render: () => (
+    <Echo
+      app={createMockApp<EchoToolOutput>({
+        toolOutput: {
+          echoedMessage: 'Third message',
+          timestamp: '2025-01-01T10:02:00Z',
+        },
+        callServerTool: async (params) => ({
+          content: [],
+          structuredContent:
+            params.name === 'echo_history'
+              ? {
+                  entries: [
+                    {
+                      id: 'entry-1',
+                      echoedMessage: 'First message',
+                      timestamp: '2025-01-01T10:00:00Z',
+                    },
+                    {
+                      id: 'entry-2',
+                      echoedMessage: 'Second message',
+                      timestamp: '2025-01-01T10:01:00Z',
+                    },
+                    {
+                      id: 'entry-3',
+                      echoedMessage: 'Third message',
+                      timestamp: '2025-01-01T10:02:00Z',
+                    },
+                  ],
+                  total: 3,
+                }
+              : undefined,
+        }),
+      })}
+    />
+  ),
+};
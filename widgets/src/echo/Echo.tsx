@@ -1,10 +1,16 @@
 'use client';
 
-import { useEffect, useMemo, useState } from 'react';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { App } from '@modelcontextprotocol/ext-apps';
 import type { TextContent } from '@modelcontextprotocol/sdk/types.js';
 import { Button } from '@/components/ui/button';
-import type { EchoToolOutput } from 'chatgpt-app-server/types';
+import {
+  EchoHistoryToolOutputSchema,
+  EchoToolOutputSchema,
+  type EchoHistoryEntry,
+  type EchoHistoryToolOutput,
+  type EchoToolOutput,
+} from 'chatgpt-app-server/types';
 import {
   BrainCircuit,
   ExternalLink,
@@ -13,18 +19,41 @@ import {
   MessageSquare,
   Moon,
   Play,
+  Square,
   Sun,
+  Timer,
   X,
 } from 'lucide-react';
-import type { AppLike, HostContext, ToolResultPayload } from '../types/mcp-app';
+import type {
+  AppLike,
+  HostContext,
+  ToolInputPayload,
+  ToolProgress,
+  ToolResultPayload,
+} from '../types/mcp-app';
+import { createTraceparent } from '../utils/trace';
+import { EchoHistory } from './EchoHistory';
 
-function isEchoToolOutput(value: unknown): value is EchoToolOutput {
-  return (
-    typeof value === 'object' &&
-    value !== null &&
-    'echoedMessage' in value &&
-    'timestamp' in value
-  );
+/**
+ * Host tool call that rendered the widget, until its result arrives
+ */
+type ToolCallState =
+  | { phase: 'streaming' | 'running'; message: string }
+  | { phase: 'cancelled'; message?: string; reason?: string };
+
+function messageArgument({ arguments: args }: ToolInputPayload): string {
+  return typeof args?.message === 'string' ? args.message : '';
+}
+
+function toolCallStatus(toolCall: ToolCallState): string {
+  switch (toolCall.phase) {
+    case 'streaming':
+      return 'Receiving message…';
+    case 'running':
+      return 'Echoing…';
+    case 'cancelled':
+      return toolCall.reason ? `Cancelled: ${toolCall.reason}` : 'Cancelled';
+  }
 }
 
 /**
@@ -40,23 +69,87 @@ export default function Echo({ app }: { app?: AppLike<EchoToolOutput> }) {
   const activeApp = app ?? defaultApp;
 
   const [toolOutput, setToolOutput] = useState<EchoToolOutput | null>(null);
+  const [toolCall, setToolCall] = useState<ToolCallState | null>(null);
   const [hostContext, setHostContext] = useState<
     HostContext | null | undefined
   >(null);
 
   const [callResult, setCallResult] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
+  const [progress, setProgress] = useState<ToolProgress | null>(null);
+  // Aborting cancels the echo call in flight
+  const echoAbortRef = useRef<AbortController | null>(null);
   const [localTheme, setLocalTheme] = useState<'light' | 'dark' | null>(null);
   const [contextUpdate, setContextUpdate] = useState<string | null>(null);
+  const [history, setHistory] = useState<EchoHistoryToolOutput>({
+    entries: [],
+    total: 0,
+  });
+  const [isHistoryBusy, setIsHistoryBusy] = useState(false);
+  // Kept out of state so reloading after an echo doesn't reconnect the app
+  const historyQueryRef = useRef('');
+
+  const message =
+    toolCall?.message || toolOutput?.echoedMessage || 'No message yet';
 
-  const message = toolOutput?.echoedMessage || 'No message yet';
+  /**
+   * Load this session's echoes with the echo_history tool
+   */
+  const refreshHistory = useCallback(async () => {
+    try {
+      const result = await activeApp.callServerTool({
+        name: 'echo_history',
+        arguments: historyQueryRef.current
+          ? { query: historyQueryRef.current }
+          : {},
+        _meta: { traceparent: createTraceparent() },
+      });
+
+      const output = EchoHistoryToolOutputSchema.safeParse(
+        result.structuredContent
+      );
+      if (output.success) {
+        setHistory(output.data);
+      }
+    } catch (err) {
+      console.error('Failed to load echo history:', err);
+    }
+  }, [activeApp]);
 
   useEffect(() => {
     let isMounted = true;
 
+    activeApp.ontoolinputpartial = (input: ToolInputPayload) => {
+      if (!isMounted) return;
+      setToolCall({ phase: 'streaming', message: messageArgument(input) });
+    };
+
+    activeApp.ontoolinput = (input: ToolInputPayload) => {
+      if (!isMounted) return;
+      setToolCall({ phase: 'running', message: messageArgument(input) });
+    };
+
     activeApp.ontoolresult = (result: ToolResultPayload<EchoToolOutput>) => {
       if (!isMounted) return;
-      setToolOutput(result.structuredContent ?? null);
+      // Hosts relay whatever the server sent, so check it like callServerTool
+      const output = EchoToolOutputSchema.safeParse(result.structuredContent);
+      setToolCall(null);
+      setToolOutput(output.success ? output.data : null);
+      void refreshHistory();
+    };
+
+    activeApp.ontoolcancelled = ({ reason }: { reason?: string }) => {
+      if (!isMounted) return;
+      setToolCall((prev) => ({
+        phase: 'cancelled',
+        message: prev?.message,
+        reason,
+      }));
+    };
+
+    activeApp.onteardown = () => {
+      echoAbortRef.current?.abort();
+      return {};
     };
 
     activeApp.onhostcontextchanged = (context: HostContext) => {
@@ -69,6 +162,7 @@ export default function Echo({ app }: { app?: AppLike<EchoToolOutput> }) {
         await activeApp.connect();
         if (!isMounted) return;
         setHostContext(activeApp.getHostContext());
+        void refreshHistory();
       } catch (err) {
         console.error('Failed to connect MCP App:', err);
       }
@@ -79,7 +173,7 @@ export default function Echo({ app }: { app?: AppLike<EchoToolOutput> }) {
     return () => {
       isMounted = false;
     };
-  }, [activeApp]);
+  }, [activeApp, refreshHistory]);
 
   const toggleTheme = () => {
     const currentTheme = localTheme ?? hostContext?.theme ?? 'light';
@@ -92,20 +186,36 @@ export default function Echo({ app }: { app?: AppLike<EchoToolOutput> }) {
   const displayMode = hostContext?.displayMode;
 
   /**
-   * Call the echo tool from the widget
+   * Call the echo tool from the widget. With `delaySeconds` the server
+   * reports progress until the echo lands or the call is cancelled.
    */
-  const handleCallEcho = async () => {
+  const handleCallEcho = async (
+    echoMessage = 'Hello from the echo widget!',
+    delaySeconds?: number
+  ) => {
+    const controller = new AbortController();
+    echoAbortRef.current = controller;
     setIsLoading(true);
+    setProgress(null);
     setCallResult(null);
 
     try {
-      const result = await activeApp.callServerTool({
-        name: 'echo',
-        arguments: { message: 'Hello from the echo widget!' },
-      });
+      const result = await activeApp.callServerTool(
+        {
+          name: 'echo',
+          arguments: delaySeconds
+            ? { message: echoMessage, delaySeconds }
+            : { message: echoMessage },
+          _meta: { traceparent: createTraceparent() },
+        },
+        { onprogress: setProgress, signal: controller.signal }
+      );
 
-      if (isEchoToolOutput(result.structuredContent)) {
-        setToolOutput(result.structuredContent);
+      const output = EchoToolOutputSchema.safeParse(result.structuredContent);
+      if (output.success) {
+        setToolCall(null);
+        setToolOutput(output.data);
+        void refreshHistory();
       }
 
       const text =
@@ -114,13 +224,64 @@ export default function Echo({ app }: { app?: AppLike<EchoToolOutput> }) {
         )?.text || 'Success!';
       setCallResult(text);
     } catch (err) {
+      if (controller.signal.aborted) {
+        setCallResult('Echo cancelled');
+        return;
+      }
       const errorMessage = err instanceof Error ? err.message : 'Unknown error';
       setCallResult(`Error: ${errorMessage}`);
     } finally {
+      echoAbortRef.current = null;
+      setProgress(null);
       setIsLoading(false);
     }
   };
 
+  /**
+   * Cancel the echo call in flight
+   */
+  const handleCancelEcho = () => {
+    echoAbortRef.current?.abort();
+  };
+
+  /**
+   * Delete one echo, or the whole history, with the echo_clear_history tool
+   */
+  const handleClearHistory = async (entry?: EchoHistoryEntry) => {
+    setIsHistoryBusy(true);
+
+    try {
+      const result = await activeApp.callServerTool({
+        name: 'echo_clear_history',
+        arguments: entry ? { id: entry.id } : {},
+        _meta: { traceparent: createTraceparent() },
+      });
+
+      const text = result?.content?.find(
+        (item): item is TextContent => item.type === 'text'
+      )?.text;
+      if (text) {
+        setCallResult(text);
+      }
+      await refreshHistory();
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Unknown error';
+      setCallResult(`Error: ${errorMessage}`);
+    } finally {
+      setIsHistoryBusy(false);
+    }
+  };
+
+  /**
+   * Search the history with the echo_history tool
+   */
+  const handleSearchHistory = async (query: string) => {
+    historyQueryRef.current = query.trim();
+    setIsHistoryBusy(true);
+    await refreshHistory();
+    setIsHistoryBusy(false);
+  };
+
   /**
    * Toggle fullscreen display mode
    */
@@ -279,11 +440,31 @@ export default function Echo({ app }: { app?: AppLike<EchoToolOutput> }) {
           <h2 className="text-sm font-semibold dark:text-zinc-300 text-zinc-900 uppercase tracking-wide">
             Echoed Message
           </h2>
-          <p className="text-base dark:text-zinc-400 text-zinc-600">
+          <p
+            className={`text-base dark:text-zinc-400 text-zinc-600 ${toolCall?.phase === 'cancelled' ? 'line-through' : ''}`}
+          >
             {message}
           </p>
+          {toolCall && (
+            <p
+              role="status"
+              className="text-xs font-medium dark:text-zinc-500 text-zinc-500"
+            >
+              {toolCallStatus(toolCall)}
+            </p>
+          )}
         </section>
 
+        <EchoHistory
+          entries={history.entries}
+          total={history.total}
+          busy={isHistoryBusy || isLoading}
+          onSearch={handleSearchHistory}
+          onResend={(entry) => handleCallEcho(entry.echoedMessage)}
+          onDelete={handleClearHistory}
+          onClear={() => handleClearHistory()}
+        />
+
         <section className="space-y-2">
           <h2 className="text-sm font-semibold dark:text-zinc-300 text-zinc-900 uppercase tracking-wide">
             Actions
@@ -291,7 +472,7 @@ export default function Echo({ app }: { app?: AppLike<EchoToolOutput> }) {
           <div className="flex gap-3 flex-wrap items-center">
             <Button
               variant="default"
-              onClick={handleCallEcho}
+              onClick={() => handleCallEcho()}
               disabled={isLoading}
               title="Calls callServerTool() to invoke the echo tool on the MCP server."
               className="font-medium dark:bg-purple-600 dark:hover:bg-purple-700 dark:text-white bg-zinc-900 hover:bg-zinc-800 text-white shadow-md hover:shadow-lg transition-all duration-300"
@@ -299,6 +480,18 @@ export default function Echo({ app }: { app?: AppLike<EchoToolOutput> }) {
               <Play className="h-4 w-4" />
               Call Echo Tool
             </Button>
+            <Button
+              variant="outline"
+              onClick={() =>
+                handleCallEcho('Hello from the echo widget, slowly!', 5)
+              }
+              disabled={isLoading}
+              title="Calls the echo tool with delaySeconds, showing its progress notifications."
+              className="font-medium dark:text-zinc-300 dark:hover:bg-zinc-800 dark:hover:text-zinc-100 text-zinc-700 hover:bg-zinc-100 transition-all duration-300"
+            >
+              <Timer className="h-4 w-4" />
+              Slow Echo
+            </Button>
             <Button
               onClick={handleUpdateContext}
               variant="outline"
@@ -347,12 +540,34 @@ export default function Echo({ app }: { app?: AppLike<EchoToolOutput> }) {
           </h2>
           <output className="block min-h-6 text-sm dark:text-zinc-200 text-zinc-800 leading-relaxed">
             {isLoading ? (
-              <div className="flex items-center h-6">
-                <div className="flex gap-1">
-                  <span className="w-1.5 h-1.5 rounded-full dark:bg-zinc-300 bg-zinc-700 animate-bounce [animation-delay:-0.3s]" />
-                  <span className="w-1.5 h-1.5 rounded-full dark:bg-zinc-300 bg-zinc-700 animate-bounce [animation-delay:-0.15s]" />
-                  <span className="w-1.5 h-1.5 rounded-full dark:bg-zinc-300 bg-zinc-700 animate-bounce" />
-                </div>
+              <div className="flex items-center gap-3 h-6">
+                {progress ? (
+                  <>
+                    <progress
+                      value={progress.total ? progress.progress : undefined}
+                      max={progress.total}
+                      aria-label="Echo progress"
+                      className="w-32 h-1.5 accent-purple-600"
+                    />
+                    <span>{progress.message}</span>
+                  </>
+                ) : (
+                  <div className="flex gap-1">
+                    <span className="w-1.5 h-1.5 rounded-full dark:bg-zinc-300 bg-zinc-700 animate-bounce [animation-delay:-0.3s]" />
+                    <span className="w-1.5 h-1.5 rounded-full dark:bg-zinc-300 bg-zinc-700 animate-bounce [animation-delay:-0.15s]" />
+                    <span className="w-1.5 h-1.5 rounded-full dark:bg-zinc-300 bg-zinc-700 animate-bounce" />
+                  </div>
+                )}
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={handleCancelEcho}
+                  title="Aborts the callServerTool() request, which cancels the call on the server."
+                  className="font-medium dark:text-zinc-300 dark:hover:bg-zinc-800 text-zinc-700 hover:bg-zinc-100"
+                >
+                  <Square className="h-3.5 w-3.5" />
+                  Cancel
+                </Button>
               </div>
             ) : (
               callResult
@@ -0,0 +1,123 @@
+import { useState, type FormEvent } from 'react';
+import type { EchoHistoryEntry } from 'chatgpt-app-server/types';
+import { RotateCcw, Search, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+
+interface EchoHistoryProps {
+  /** Matching echoes, oldest first */
+  entries: EchoHistoryEntry[];
+  /** Echoes in the session before filtering */
+  total: number;
+  busy?: boolean;
+  onSearch: (query: string) => void;
+  onResend: (entry: EchoHistoryEntry) => void;
+  onDelete: (entry: EchoHistoryEntry) => void;
+  onClear: () => void;
+}
+
+/**
+ * Session echo history panel, newest first, with search, re-send and delete
+ */
+export function EchoHistory({
+  entries,
+  total,
+  busy = false,
+  onSearch,
+  onResend,
+  onDelete,
+  onClear,
+}: EchoHistoryProps) {
+  const [query, setQuery] = useState('');
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    onSearch(query);
+  };
+
+  return (
+    <section className="space-y-3">
+      <div className="flex items-center justify-between gap-3">
+        <h2 className="text-sm font-semibold dark:text-zinc-300 text-zinc-900 uppercase tracking-wide">
+          History
+        </h2>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={onClear}
+          disabled={busy || total === 0}
+          title="Calls the echo_clear_history tool to delete every echo in this session."
+          className="font-medium dark:text-zinc-300 dark:hover:bg-zinc-800 dark:hover:text-zinc-100 text-zinc-700 hover:bg-zinc-100 transition-all duration-300"
+        >
+          <Trash2 className="h-4 w-4" />
+          Clear History
+        </Button>
+      </div>
+
+      <form role="search" onSubmit={handleSubmit} className="flex gap-2">
+        <input
+          type="search"
+          value={query}
+          onChange={(event) => setQuery(event.target.value)}
+          placeholder="Search echoed messages"
+          aria-label="Search history"
+          className="flex-1 h-9 rounded-md border px-3 text-sm bg-transparent dark:border-zinc-700 dark:text-zinc-200 border-zinc-200 text-zinc-800"
+        />
+        <Button
+          type="submit"
+          variant="outline"
+          size="sm"
+          disabled={busy}
+          title="Calls the echo_history tool with a search query."
+          className="font-medium dark:text-zinc-300 dark:hover:bg-zinc-800 dark:hover:text-zinc-100 text-zinc-700 hover:bg-zinc-100 transition-all duration-300"
+        >
+          <Search className="h-4 w-4" />
+          Search
+        </Button>
+      </form>
+
+      {entries.length > 0 ? (
+        <ol className="space-y-1 text-sm dark:text-zinc-400 text-zinc-600">
+          {[...entries].reverse().map((entry) => (
+            <li key={entry.id} className="flex items-center gap-3">
+              <span className="flex-1 truncate">{entry.echoedMessage}</span>
+              <time
+                dateTime={entry.timestamp}
+                className="shrink-0 font-mono text-xs"
+              >
+                {new Date(entry.timestamp).toLocaleTimeString()}
+              </time>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => onResend(entry)}
+                disabled={busy}
+                title="Calls the echo tool again with this message."
+                aria-label={`Re-send "${entry.echoedMessage}"`}
+                className="h-8 w-8 dark:hover:bg-zinc-800"
+              >
+                <RotateCcw className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => onDelete(entry)}
+                disabled={busy}
+                title="Calls the echo_clear_history tool for this echo."
+                aria-label={`Delete "${entry.echoedMessage}"`}
+                className="h-8 w-8 dark:hover:bg-zinc-800"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </li>
+          ))}
+        </ol>
+      ) : (
+        <p className="text-sm dark:text-zinc-500 text-zinc-500">
+          {total > 0
+            ? 'No echoes match your search'
+            : 'No echoes in this session yet'}
+        </p>
+      )}
+    </section>
+  );
+}
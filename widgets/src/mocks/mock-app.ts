@@ -1,19 +1,34 @@
-import type { AppLike, HostContext, ToolResultPayload } from '../types/mcp-app';
+import type {
+  AppLike,
+  CallServerToolOptions,
+  HostContext,
+  ToolCancelledPayload,
+  ToolInputPayload,
+  ToolResultPayload,
+} from '../types/mcp-app';
 
 interface MockAppOptions<TStructured> {
   toolOutput?: TStructured | null;
   hostContext?: HostContext;
-  callServerTool?: (params: {
-    name: string;
-    arguments?: Record<string, unknown>;
-  }) => Promise<ToolResultPayload<TStructured>>;
+  callServerTool?: (
+    params: {
+      name: string;
+      arguments?: Record<string, unknown>;
+      _meta?: Record<string, unknown>;
+    },
+    options?: CallServerToolOptions
+  ) => Promise<ToolResultPayload>;
 }
 
 export function createMockApp<TStructured>(
   options: MockAppOptions<TStructured> = {}
 ): AppLike<TStructured> & {
+  emitToolInputPartial: (args: Record<string, unknown>) => void;
+  emitToolInput: (args: Record<string, unknown>) => void;
   emitToolResult: (next: TStructured) => void;
+  emitToolCancelled: (reason?: string) => void;
   setHostContext: (next: HostContext) => void;
+  teardown: () => Promise<Record<string, unknown>>;
 } {
   let toolOutput: TStructured | null = options.toolOutput ?? null;
   let hostContext: HostContext =
@@ -37,6 +52,7 @@ export function createMockApp<TStructured>(
       (async (params: {
         name: string;
         arguments?: Record<string, unknown>;
+        _meta?: Record<string, unknown>;
       }) => ({
         content: [
           {
@@ -52,20 +68,40 @@ export function createMockApp<TStructured>(
     openLink: async () => ({}),
     sendMessage: async () => ({}),
     updateModelContext: async () => ({}),
+    ontoolinputpartial: undefined as
+      | ((input: ToolInputPayload) => void)
+      | undefined,
+    ontoolinput: undefined as ((input: ToolInputPayload) => void) | undefined,
     ontoolresult: undefined as
       | ((result: ToolResultPayload<TStructured>) => void)
       | undefined,
+    ontoolcancelled: undefined as
+      | ((cancelled: ToolCancelledPayload) => void)
+      | undefined,
     onhostcontextchanged: undefined as
       | ((context: HostContext) => void)
       | undefined,
+    onteardown: undefined as
+      | (() => Record<string, unknown> | Promise<Record<string, unknown>>)
+      | undefined,
+    emitToolInputPartial: (args: Record<string, unknown>) => {
+      mock.ontoolinputpartial?.({ arguments: args });
+    },
+    emitToolInput: (args: Record<string, unknown>) => {
+      mock.ontoolinput?.({ arguments: args });
+    },
     emitToolResult: (next: TStructured) => {
       toolOutput = next;
       mock.ontoolresult?.({ structuredContent: next, content: [] });
     },
+    emitToolCancelled: (reason?: string) => {
+      mock.ontoolcancelled?.({ reason });
+    },
     setHostContext: (next: HostContext) => {
       hostContext = next;
       mock.onhostcontextchanged?.(next);
     },
+    teardown: async () => (await mock.onteardown?.()) ?? {},
   };
 
   return mock;
@@ -27,6 +27,35 @@ export interface ToolResultPayload<TStructured = unknown> {
   structuredContent?: TStructured;
 }
 
+/**
+ * Tool arguments sent by the host, complete (`ontoolinput`) or still being
+ * generated by the model (`ontoolinputpartial`)
+ */
+export interface ToolInputPayload {
+  arguments?: Record<string, unknown>;
+}
+
+export interface ToolCancelledPayload {
+  /** e.g. "user action" or "timeout" */
+  reason?: string;
+}
+
+/**
+ * `notifications/progress` payload for an in-flight tool call
+ */
+export interface ToolProgress {
+  progress: number;
+  total?: number;
+  message?: string;
+}
+
+export interface CallServerToolOptions {
+  /** Called for each progress notification the server sends */
+  onprogress?: (progress: ToolProgress) => void;
+  /** Aborting cancels the call on the server */
+  signal?: AbortSignal;
+}
+
 export interface ContentBlock {
   type: string;
   text?: string;
@@ -36,10 +65,14 @@ export interface ContentBlock {
 export interface AppLike<TStructured = unknown> {
   connect: () => Promise<void>;
   getHostContext: () => HostContext | null;
-  callServerTool: (params: {
-    name: string;
-    arguments?: Record<string, unknown>;
-  }) => Promise<ToolResultPayload<TStructured>>;
+  callServerTool: (
+    params: {
+      name: string;
+      arguments?: Record<string, unknown>;
+      _meta?: Record<string, unknown>;
+    },
+    options?: CallServerToolOptions
+  ) => Promise<ToolResultPayload>;
   requestDisplayMode: (params: { mode: DisplayMode }) => Promise<{
     mode: DisplayMode;
     [key: string]: unknown;
@@ -59,6 +92,11 @@ export interface AppLike<TStructured = unknown> {
     content?: ContentBlock[];
     structuredContent?: Record<string, unknown>;
   }) => Promise<Record<string, unknown>>;
+  ontoolinputpartial?: (input: ToolInputPayload) => void;
+  ontoolinput?: (input: ToolInputPayload) => void;
   ontoolresult?: (result: ToolResultPayload<TStructured>) => void;
+  ontoolcancelled?: (cancelled: ToolCancelledPayload) => void;
   onhostcontextchanged?: (context: HostContext) => void;
+  /** Host is about to unmount the widget; it waits for the returned promise */
+  onteardown?: () => Record<string, unknown> | Promise<Record<string, unknown>>;
 }
@@ -0,0 +1,13 @@
+function randomHex(bytes: number): string {
+  return Array.from(crypto.getRandomValues(new Uint8Array(bytes)), (byte) =>
+    byte.toString(16).padStart(2, '0')
+  ).join('');
+}
+
+/**
+ * New W3C `traceparent` for a sampled trace. Passed in a tool call's `_meta`,
+ * the server continues this trace in its spans.
+ */
+export function createTraceparent(): string {
+  return `00-${randomHex(16)}-${randomHex(8)}-01`;
+}
@@ -1,8 +1,22 @@
-import { describe, it, expect } from 'vitest';
-import { render, screen } from '@testing-library/react';
+import { describe, it, expect, vi } from 'vitest';
+import {
+  act,
+  render,
+  screen,
+  waitFor,
+  within,
+} from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
 import Echo from '../src/echo/Echo.js';
 import { createMockApp } from '../src/mocks/mock-app.js';
-import type { EchoToolOutput } from 'chatgpt-app-server/types';
+import type {
+  EchoHistoryEntry,
+  EchoToolOutput,
+} from 'chatgpt-app-server/types';
+import type {
+  CallServerToolOptions,
+  ToolResultPayload,
+} from '../src/types/mcp-app.js';
 
 describe('Echo', () => {
   it('should render the echoed message', async () => {
@@ -45,4 +59,369 @@ describe('Echo', () => {
       screen.getByRole('button', { name: /^clear$/i })
     ).toBeTruthy();
   });
+
+  it('should show structured content returned by callServerTool', async () => {
+    const user = userEvent.setup();
+    render(
+      <Echo
+        app={createMockApp<EchoToolOutput>({
+          toolOutput: null,
+          callServerTool: async () => ({
+            content: [{ type: 'text', text: 'Echoing: "From the server"' }],
+            structuredContent: {
+              echoedMessage: 'From the server',
+              timestamp: new Date().toISOString(),
+            },
+          }),
+        })}
+      />
+    );
+
+    await user.click(
+      await screen.findByRole('button', { name: /call echo tool/i })
+    );
+
+    expect(await screen.findByText('From the server')).toBeTruthy();
+  });
+
+  it('should ignore structured content that does not match the output schema', async () => {
+    const user = userEvent.setup();
+    render(
+      <Echo
+        app={createMockApp<EchoToolOutput>({
+          toolOutput: null,
+          callServerTool: async () => ({
+            content: [{ type: 'text', text: 'Done' }],
+            structuredContent: {
+              echoedMessage: 'Bad timestamp',
+              timestamp: 'yesterday',
+            },
+          }),
+        })}
+      />
+    );
+
+    await user.click(
+      await screen.findByRole('button', { name: /call echo tool/i })
+    );
+
+    expect(await screen.findByText('Done')).toBeTruthy();
+    expect(screen.queryByText('Bad timestamp')).toBeNull();
+    expect(screen.getByText(/No message yet/i)).toBeTruthy();
+  });
+
+  it('should send a traceparent with tool calls', async () => {
+    const user = userEvent.setup();
+    const callServerTool = vi.fn(async () => ({
+      content: [{ type: 'text', text: 'Done' }],
+    }));
+    render(
+      <Echo
+        app={createMockApp<EchoToolOutput>({
+          toolOutput: null,
+          callServerTool,
+        })}
+      />
+    );
+
+    await user.click(
+      await screen.findByRole('button', { name: /call echo tool/i })
+    );
+
+    expect(callServerTool).toHaveBeenCalledWith(
+      expect.objectContaining({
+        _meta: {
+          traceparent: expect.stringMatching(
+            /^00-[0-9a-f]{32}-[0-9a-f]{16}-01$/
+          ),
+        },
+      }),
+      expect.anything()
+    );
+  });
+
+  it('should show slow echo progress and cancel the call', async () => {
+    const user = userEvent.setup();
+    const callServerTool = vi.fn(
+      (
+        _params: { name: string },
+        options?: CallServerToolOptions
+      ): Promise<ToolResultPayload> =>
+        new Promise((_resolve, reject) => {
+          options?.onprogress?.({
+            progress: 2,
+            total: 5,
+            message: 'Echoing in 3s',
+          });
+          options?.signal?.addEventListener('abort', () =>
+            reject(new Error('AbortError'))
+          );
+        })
+    );
+    render(
+      <Echo
+        app={createMockApp<EchoToolOutput>({
+          toolOutput: null,
+          callServerTool,
+        })}
+      />
+    );
+
+    await user.click(await screen.findByRole('button', { name: /slow echo/i }));
+
+    expect(callServerTool).toHaveBeenCalledWith(
+      expect.objectContaining({
+        name: 'echo',
+        arguments: expect.objectContaining({ delaySeconds: 5 }),
+      }),
+      expect.objectContaining({ signal: expect.any(AbortSignal) })
+    );
+    const progress = await screen.findByRole('progressbar', {
+      name: 'Echo progress',
+    });
+    expect(progress.getAttribute('value')).toBe('2');
+    expect(progress.getAttribute('max')).toBe('5');
+    expect(screen.getByText('Echoing in 3s')).toBeTruthy();
+
+    await user.click(screen.getByRole('button', { name: /cancel/i }));
+
+    expect(await screen.findByText('Echo cancelled')).toBeTruthy();
+    expect(screen.queryByRole('progressbar')).toBeNull();
+    const [, echoOptions] =
+      callServerTool.mock.calls.find(([params]) => params.name === 'echo') ??
+      [];
+    expect(echoOptions?.signal?.aborted).toBe(true);
+  });
+
+  describe('tool call lifecycle', () => {
+    it('should show the message while the model generates arguments', async () => {
+      const app = createMockApp<EchoToolOutput>({ toolOutput: null });
+      render(<Echo app={app} />);
+      await screen.findByText(/No message yet/i);
+
+      act(() => app.emitToolInputPartial({ message: 'Hel' }));
+      expect(await screen.findByText('Hel')).toBeTruthy();
+      expect(screen.getByText('Receiving message…')).toBeTruthy();
+
+      act(() => app.emitToolInputPartial({ message: 'Hello wor' }));
+      expect(await screen.findByText('Hello wor')).toBeTruthy();
+    });
+
+    it('should show the complete input until the result arrives', async () => {
+      const app = createMockApp<EchoToolOutput>({ toolOutput: null });
+      render(<Echo app={app} />);
+      await screen.findByText(/No message yet/i);
+
+      act(() => app.emitToolInput({ message: 'Hello world' }));
+      expect(await screen.findByText('Hello world')).toBeTruthy();
+      expect(screen.getByText('Echoing…')).toBeTruthy();
+
+      act(() =>
+        app.emitToolResult({
+          echoedMessage: 'Hello world',
+          timestamp: new Date().toISOString(),
+        })
+      );
+      await waitFor(() => expect(screen.queryByText('Echoing…')).toBeNull());
+      expect(screen.getByText('Hello world')).toBeTruthy();
+    });
+
+    it('should ignore a host tool result that does not match the output schema', async () => {
+      const app = createMockApp<EchoToolOutput>({ toolOutput: null });
+      render(<Echo app={app} />);
+      await screen.findByText(/No message yet/i);
+
+      act(() => app.emitToolInput({ message: 'Hello world' }));
+      act(() =>
+        app.emitToolResult({
+          echoedMessage: 'Bad timestamp',
+          timestamp: 'yesterday',
+        })
+      );
+
+      await waitFor(() => expect(screen.queryByText('Echoing…')).toBeNull());
+      expect(screen.queryByText('Bad timestamp')).toBeNull();
+      expect(screen.getByText(/No message yet/i)).toBeTruthy();
+    });
+
+    it('should render a cancelled state', async () => {
+      const app = createMockApp<EchoToolOutput>({ toolOutput: null });
+      render(<Echo app={app} />);
+      await screen.findByText(/No message yet/i);
+
+      act(() => app.emitToolInput({ message: 'Never mind' }));
+      act(() => app.emitToolCancelled('user action'));
+
+      expect(await screen.findByText('Cancelled: user action')).toBeTruthy();
+      expect(screen.getByText('Never mind').className).toContain(
+        'line-through'
+      );
+    });
+
+    it('should cancel its own tool call on teardown', async () => {
+      const user = userEvent.setup();
+      const app = createMockApp<EchoToolOutput>({
+        toolOutput: null,
+        callServerTool: (_params, options) =>
+          new Promise((_resolve, reject) => {
+            options?.signal?.addEventListener('abort', () =>
+              reject(new Error('AbortError'))
+            );
+          }),
+      });
+      render(<Echo app={app} />);
+
+      await user.click(
+        await screen.findByRole('button', { name: /call echo tool/i })
+      );
+      let result: Record<string, unknown> | undefined;
+      await act(async () => {
+        result = await app.teardown();
+      });
+
+      expect(result).toEqual({});
+      expect(await screen.findByText('Echo cancelled')).toBeTruthy();
+    });
+  });
+
+  /**
+   * Mock app whose callServerTool keeps an echo history like the server's
+   * echo, echo_history and echo_clear_history tools
+   */
+  function createHistoryApp(messages: string[]) {
+    let nextId = 0;
+    // Every entry shares one timestamp, only the ID tells them apart
+    const timestamp = new Date(Date.UTC(2025, 0, 1, 10)).toISOString();
+    let entries: EchoHistoryEntry[] = messages.map((echoedMessage) => ({
+      id: `entry-${++nextId}`,
+      echoedMessage,
+      timestamp,
+    }));
+    const callServerTool = vi.fn(
+      async ({
+        name,
+        arguments: args = {},
+      }: {
+        name: string;
+        arguments?: Record<string, unknown>;
+      }) => {
+        if (name === 'echo_history') {
+          const query = String(args.query ?? '').toLowerCase();
+          return {
+            content: [],
+            structuredContent: {
+              entries: entries.filter(({ echoedMessage }) =>
+                echoedMessage.toLowerCase().includes(query)
+              ),
+              total: entries.length,
+            },
+          };
+        }
+        if (name === 'echo_clear_history') {
+          const remaining = entries.filter(
+            ({ id }) => args.id && id !== args.id
+          );
+          const removed = entries.length - remaining.length;
+          entries = remaining;
+          return {
+            content: [{ type: 'text', text: `Deleted ${removed}` }],
+            structuredContent: { removed, remaining: remaining.length },
+          };
+        }
+        const output = { echoedMessage: String(args.message), timestamp };
+        entries.push({ id: `entry-${++nextId}`, ...output });
+        return { content: [], structuredContent: output };
+      }
+    );
+
+    return {
+      app: createMockApp<EchoToolOutput>({
+        toolOutput: null,
+        callServerTool,
+      }),
+      callServerTool,
+    };
+  }
+
+  async function historyItems() {
+    const list = await screen.findByRole('list');
+    return within(list)
+      .getAllByRole('listitem')
+      .map((item) => item.textContent);
+  }
+
+  it('should show the echo history newest first', async () => {
+    const { app } = createHistoryApp(['First', 'Second']);
+    render(<Echo app={app} />);
+
+    expect(await historyItems()).toEqual([
+      expect.stringContaining('Second'),
+      expect.stringContaining('First'),
+    ]);
+  });
+
+  it('should search the history with the echo_history tool', async () => {
+    const user = userEvent.setup();
+    const { app, callServerTool } = createHistoryApp(['Apple', 'Banana']);
+    render(<Echo app={app} />);
+    await historyItems();
+
+    await user.type(screen.getByRole('searchbox'), 'ban');
+    await user.click(screen.getByRole('button', { name: /^search$/i }));
+
+    await waitFor(async () =>
+      expect(await historyItems()).toEqual([expect.stringContaining('Banana')])
+    );
+    expect(callServerTool).toHaveBeenCalledWith(
+      expect.objectContaining({
+        name: 'echo_history',
+        arguments: { query: 'ban' },
+      })
+    );
+  });
+
+  it('should re-send and delete history entries', async () => {
+    const user = userEvent.setup();
+    const { app, callServerTool } = createHistoryApp(['Again', 'Gone']);
+    render(<Echo app={app} />);
+    await historyItems();
+
+    await user.click(screen.getByRole('button', { name: 'Re-send "Again"' }));
+    await waitFor(async () => expect(await historyItems()).toHaveLength(3));
+    expect(callServerTool).toHaveBeenCalledWith(
+      expect.objectContaining({
+        name: 'echo',
+        arguments: { message: 'Again' },
+      }),
+      expect.anything()
+    );
+
+    await user.click(screen.getByRole('button', { name: 'Delete "Gone"' }));
+    await waitFor(async () =>
+      expect(await historyItems()).toEqual([
+        expect.stringContaining('Again'),
+        expect.stringContaining('Again'),
+      ])
+    );
+    expect(callServerTool).toHaveBeenCalledWith(
+      expect.objectContaining({
+        name: 'echo_clear_history',
+        arguments: { id: 'entry-2' },
+      })
+    );
+  });
+
+  it('should clear the whole history', async () => {
+    const user = userEvent.setup();
+    const { app } = createHistoryApp(['One', 'Two']);
+    render(<Echo app={app} />);
+    await historyItems();
+
+    await user.click(screen.getByRole('button', { name: /clear history/i }));
+
+    expect(
+      await screen.findByText(/No echoes in this session yet/i)
+    ).toBeTruthy();
+    expect(screen.getByText('Deleted 2')).toBeTruthy();
+  });
 });
@@ -3,6 +3,19 @@ import fg from 'fast-glob';
 import path from 'node:path';
 import fs from 'node:fs';
 import crypto from 'node:crypto';
+import {
+  inlineWidgetHtml,
+  type InlineOptions,
+} from 'chatgpt-app-server/inliner';
+import {
+  WIDGET_DECLARATION_SUFFIX,
+  WIDGET_MANIFEST_FILENAME,
+  WidgetDeclarationSchema,
+  type WidgetAssetFile,
+  type WidgetDeclaration,
+  type WidgetManifest,
+  type WidgetManifestEntry,
+} from 'chatgpt-app-server/types';
 
 interface WidgetEntry {
   name: string;
@@ -10,11 +23,27 @@ interface WidgetEntry {
   dir: string;
 }
 
+export interface WidgetDiscoveryOptions {
+  /** Port of the Vite dev server, used for dev-mode script URLs */
+  widgetPort: number;
+  /** Public URL the built assets are served from (defaults to the dev server) */
+  baseUrl?: string;
+  /**
+   * Also emit a self-contained `<widget>.inline.html` with every asset
+   * embedded, checked against these size budgets
+   */
+  inline?: Pick<InlineOptions, 'maxAssetBytes' | 'maxTotalBytes'>;
+}
+
 /**
  * Vite plugin that auto-discovers widgets and builds them separately
  * Widgets must include mounting code at the bottom of their files
  */
-export function widgetDiscoveryPlugin(): Plugin {
+export function widgetDiscoveryPlugin({
+  widgetPort,
+  baseUrl: configuredBaseUrl,
+  inline,
+}: WidgetDiscoveryOptions): Plugin {
   let config: ResolvedConfig;
   let widgets: WidgetEntry[] = [];
 
@@ -176,6 +205,24 @@ import ${JSON.stringify(widgetPath)};`,
 
         const url = req.url.split('?')[0];
 
+        if (url === `/${WIDGET_MANIFEST_FILENAME}`) {
+          // Dev widgets are served unbundled, so there are no hashed files
+          const manifest = createManifest(
+            widgets.map((widget) => ({
+              id: widget.name,
+              title: toTitle(widget.name),
+              html: `${widget.name}.html`,
+              js: null,
+              css: null,
+              ...readDeclaration(widget),
+            }))
+          );
+
+          res.setHeader('Content-Type', 'application/json');
+          res.end(JSON.stringify(manifest));
+          return;
+        }
+
         const htmlMatch = url.match(/^\/([\w-]+)(?:\.html)?$/);
         if (!htmlMatch) return next();
 
@@ -184,7 +231,6 @@ import ${JSON.stringify(widgetPath)};`,
 
         if (!widget) return next();
 
-        const widgetPort = process.env.WIDGET_PORT || '4444';
         const baseUrl = `http://localhost:${widgetPort}`;
 
         const html = `<!doctype html>
@@ -205,16 +251,17 @@ import ${JSON.stringify(widgetPath)};`,
       });
     },
 
-    writeBundle() {
+    async writeBundle() {
       const outDir = config.build.outDir;
+      const entries: WidgetManifestEntry[] = [];
 
-      widgets.forEach((widget) => {
+      for (const widget of widgets) {
         const jsPath = path.join(outDir, `${widget.name}.js`);
         const cssPath = path.join(outDir, `${widget.name}.css`);
 
         if (!fs.existsSync(jsPath)) {
           console.warn(`Warning: ${jsPath} not found after build`);
-          return;
+          continue;
         }
 
         const jsHash = generateContentHash(jsPath);
@@ -237,12 +284,9 @@ import ${JSON.stringify(widgetPath)};`,
           console.log(`  ${widget.name}.css → ${widget.name}-${cssHash}.css`);
         }
 
-        const widgetPort = process.env.WIDGET_PORT || '4444';
         const defaultBaseUrl = `http://localhost:${widgetPort}`;
-        const baseUrlCandidate = process.env.BASE_URL?.trim() ?? '';
-        const baseUrlRaw =
-          baseUrlCandidate.length > 0 ? baseUrlCandidate : defaultBaseUrl;
-        const baseUrl = baseUrlRaw.replace(/\/+$/, '') || defaultBaseUrl;
+        const baseUrl =
+          configuredBaseUrl?.replace(/\/+$/, '') || defaultBaseUrl;
 
         const html = `<!doctype html>
 <html>
@@ -263,13 +307,78 @@ import ${JSON.stringify(widgetPath)};`,
         const htmlPath = path.join(outDir, `${widget.name}.html`);
         fs.writeFileSync(htmlPath, html, 'utf-8');
         console.log(`  ${widget.name}.html (with preload hints)`);
-      });
+
+        let inlineHtmlPath: string | null = null;
+        if (inline) {
+          const inlined = await inlineWidgetHtml(html, {
+            assetsDir: outDir,
+            publicUrls: [baseUrl],
+            ...inline,
+          });
+          inlineHtmlPath = path.join(outDir, `${widget.name}.inline.html`);
+          fs.writeFileSync(inlineHtmlPath, inlined.html, 'utf-8');
+          console.log(
+            `  ${widget.name}.inline.html (${inlined.assets.length} asset(s) embedded)`
+          );
+          if (inlined.externalUrls.length > 0) {
+            console.warn(
+              `Warning: ${widget.name}.inline.html still references ${inlined.externalUrls.join(', ')}`
+            );
+          }
+        }
+
+        entries.push({
+          id: widget.name,
+          title: toTitle(widget.name),
+          html: `${widget.name}.html`,
+          js: toAssetFile(jsHashedPath),
+          css: cssHashedPath ? toAssetFile(cssHashedPath) : null,
+          inlineHtml: inlineHtmlPath ? toAssetFile(inlineHtmlPath) : null,
+          ...readDeclaration(widget),
+        });
+      }
+
+      const manifestPath = path.join(outDir, WIDGET_MANIFEST_FILENAME);
+      fs.writeFileSync(
+        manifestPath,
+        JSON.stringify(createManifest(entries), null, 2),
+        'utf-8'
+      );
+      console.log(
+        `  ${WIDGET_MANIFEST_FILENAME} (${entries.length} widget(s))`
+      );
 
       console.log(`\n✨ ${widgets.length} widget(s) built successfully\n`);
     },
   };
 }
 
+/**
+ * Read the optional `<widget>.widget.json` next to the widget's source
+ */
+function readDeclaration(widget: WidgetEntry): WidgetDeclaration {
+  const declarationPath = path.join(
+    widget.dir,
+    `${widget.name}${WIDGET_DECLARATION_SUFFIX}`
+  );
+
+  if (!fs.existsSync(declarationPath)) {
+    return {};
+  }
+
+  const result = WidgetDeclarationSchema.safeParse(
+    JSON.parse(fs.readFileSync(declarationPath, 'utf-8'))
+  );
+  if (!result.success) {
+    throw new Error(
+      `Invalid ${path.basename(declarationPath)}:\n${result.error.issues
+        .map((issue) => `  - ${issue.path.join('.')}: ${issue.message}`)
+        .join('\n')}`
+    );
+  }
+  return result.data;
+}
+
 /**
  * Generate content-based hash for a file
  */
@@ -277,3 +386,35 @@ function generateContentHash(filePath: string): string {
   const content = fs.readFileSync(filePath);
   return crypto.createHash('sha256').update(content).digest('hex').slice(0, 8);
 }
+
+/**
+ * Describe a built asset file for the widget manifest
+ */
+function toAssetFile(filePath: string): WidgetAssetFile {
+  return {
+    file: path.basename(filePath),
+    size: fs.statSync(filePath).size,
+  };
+}
+
+/**
+ * Build the widget manifest consumed by the MCP server
+ */
+function createManifest(entries: WidgetManifestEntry[]): WidgetManifest {
+  return {
+    version: 1,
+    generatedAt: new Date().toISOString(),
+    widgets: entries,
+  };
+}
+
+/**
+ * Derive a display title from a widget name, e.g. `my-widget` → `My Widget`
+ */
+function toTitle(name: string): string {
+  return name
+    .split(/[-_]+/)
+    .filter(Boolean)
+    .map((part) => part[0].toUpperCase() + part.slice(1))
+    .join(' ');
+}
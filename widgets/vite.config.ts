@@ -2,20 +2,20 @@ import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
 import tailwindcss from '@tailwindcss/vite';
 import compression from 'vite-plugin-compression';
+import { loadWidgetConfig } from 'chatgpt-app-server/config';
 import { widgetDiscoveryPlugin } from './vite-plugin-widgets';
 import path from 'path';
 
 export default defineConfig(({ mode }) => {
-  // loadEnv with '' prefix loads all .env vars (not just VITE_-prefixed ones).
-  // Inject into process.env so vite-plugin-widgets can read BASE_URL at build time.
-  const env = loadEnv(mode, path.resolve(__dirname, '..'), '');
-  if (env.BASE_URL && !process.env.BASE_URL) {
-    process.env.BASE_URL = env.BASE_URL;
-  }
+  // loadEnv with '' prefix loads all .env vars (not just VITE_-prefixed ones);
+  // real env vars still win, same as on the server.
+  const rootDir = path.resolve(__dirname, '..');
+  const config = loadWidgetConfig({
+    rootDir,
+    env: { ...loadEnv(mode, rootDir, ''), ...process.env },
+  });
 
   const isProd = process.env.NODE_ENV === 'production';
-  const inlineAssets = env.INLINE_DEV_MODE === 'true';
-  const widgetPort = Number(process.env.WIDGET_PORT || env.WIDGET_PORT || 4444);
 
   return {
     envDir: '..', // load .env from repo root for import.meta.env in client code
@@ -28,7 +28,16 @@ export default defineConfig(({ mode }) => {
       react({
         jsxRuntime: 'automatic',
       }),
-      widgetDiscoveryPlugin(),
+      widgetDiscoveryPlugin({
+        widgetPort: config.widgetPort,
+        baseUrl: config.baseUrl,
+        inline: config.inlineBuild
+          ? {
+              maxAssetBytes: config.inlineMaxAssetBytes,
+              maxTotalBytes: config.inlineMaxTotalBytes,
+            }
+          : undefined,
+      }),
       tailwindcss(),
       ...(isProd
         ? [
@@ -44,7 +53,7 @@ export default defineConfig(({ mode }) => {
         : []),
     ],
     server: {
-      port: widgetPort,
+      port: config.widgetPort,
       strictPort: true,
       cors: true,
       fs: {
@@ -57,7 +66,11 @@ export default defineConfig(({ mode }) => {
       outDir: '../assets',
       emptyOutDir: false,
       sourcemap: true,
-      ...(inlineAssets ? { assetsInlineLimit: 100 * 1024 } : {}), // 100KB in inline mode to embed local images as data URIs
+      ...(config.inlineDevMode ? { assetsInlineLimit: 100 * 1024 } : {}), // 100KB in inline mode to embed local images as data URIs
+      // Preload links can't point into data: URL chunks
+      ...(config.inlineDevMode || config.inlineBuild
+        ? { modulePreload: false }
+        : {}),
       minify: isProd ? 'esbuild' : false,
       ...(isProd
         ? {